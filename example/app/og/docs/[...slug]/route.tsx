@@ -2,6 +2,7 @@ import { getPageImage, source } from '@/lib/source';
 import { notFound } from 'next/navigation';
 import { ImageResponse } from 'next/og';
 import { generate as DefaultImage } from 'fumadocs-ui/og';
+import { findOgDiagram, MermaidOgImage } from 'fumadocs-mermaid/og';
 
 export const revalidate = false;
 
@@ -10,8 +11,14 @@ export async function GET(_req: Request, { params }: RouteContext<'/og/docs/[...
   const page = source.getPage(slug.slice(0, -1));
   if (!page) notFound();
 
+  const chart = findOgDiagram(await page.data.getText('raw'));
+
   return new ImageResponse(
-    <DefaultImage title={page.data.title} description={page.data.description} site="My App" />,
+    chart ? (
+      <MermaidOgImage chart={chart} title={page.data.title} site="My App" />
+    ) : (
+      <DefaultImage title={page.data.title} description={page.data.description} site="My App" />
+    ),
     {
       width: 1200,
       height: 630,
@@ -0,0 +1,138 @@
+import { visit } from 'unist-util-visit';
+import type { Code, Heading, Root } from 'mdast';
+import type { VFile } from 'vfile';
+
+export interface FigureOptions {
+  /**
+   * Word used for numbering and references, e.g. "Figure 3"
+   * @defaultValue 'Figure'
+   */
+  label?: string;
+
+  /**
+   * Add titled figures to the page's table of contents (`toc` of Fumadocs MDX),
+   * below the heading they appear under
+   * @defaultValue false
+   */
+  toc?: boolean;
+}
+
+interface FigureBlock {
+  node: Code;
+  attributes: Record<string, string | null>;
+}
+
+interface TocEntry {
+  title: unknown;
+  url: string;
+  depth: number;
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-');
+}
+
+/**
+ * Number the blocks that have a `title`, `caption` or `id` in document order
+ * and give them anchor ids: the `id` attribute, `figure-<title>` or `figure-<number>`.
+ *
+ * Sets the `id` and `label` attributes of each figure.
+ * Returns the number of each figure by id.
+ */
+export function assignFigures(blocks: FigureBlock[], { label = 'Figure' }: FigureOptions, file: VFile): Map<string, string> {
+  const labels = new Map<string, string>();
+  let count = 0;
+
+  for (const { node, attributes } of blocks) {
+    if (attributes.title == null && attributes.caption == null && attributes.id == null) continue;
+    count++;
+
+    const slug = attributes.title ? slugify(attributes.title) : '';
+    let id = attributes.id || (slug ? `figure-${slug}` : `figure-${count}`);
+
+    if (labels.has(id)) {
+      if (attributes.id) {
+        file.message(`Duplicate mermaid figure id "${id}"`, {
+          place: node.position,
+          source: 'remark-mdx-mermaid',
+          ruleId: 'figure-id',
+        });
+      }
+      id = `${id}-${count}`;
+    }
+
+    attributes.id = id;
+    attributes.label ??= `${label} ${count}`;
+    labels.set(id, attributes.label);
+  }
+
+  return labels;
+}
+
+/**
+ * Fill links without text that point at a figure, `[](#figure-id)`,
+ * with the figure's label. Links to unknown ids with the `figure-` prefix
+ * are reported, other links may point at headings.
+ */
+export function resolveFigureReferences(tree: Root, labels: Map<string, string>, file: VFile) {
+  visit(tree, 'link', (node) => {
+    if (node.children.length > 0 || !node.url.startsWith('#')) return;
+
+    const id = decodeURIComponent(node.url.slice(1));
+    const label = labels.get(id);
+    if (!label) {
+      if (!id.startsWith('figure-')) return;
+      file.message(`Reference to unknown mermaid figure "${node.url}"`, {
+        place: node.position,
+        source: 'remark-mdx-mermaid',
+        ruleId: 'figure-reference',
+      });
+      return;
+    }
+
+    node.children = [{ type: 'text', value: label }];
+  });
+}
+
+/**
+ * Insert titled figures into the table of contents collected by Fumadocs'
+ * `remarkHeading`, right after the heading they appear under.
+ */
+export function addFiguresToToc(tree: Root, blocks: FigureBlock[], file: VFile) {
+  const toc = file.data.toc as TocEntry[] | undefined;
+  if (!Array.isArray(toc)) return;
+
+  const titled = new Set(blocks.filter(({ attributes }) => attributes.title).map(({ node }) => node));
+  if (titled.size === 0) return;
+
+  const parents = new Map<Code, Heading | undefined>();
+  let heading: Heading | undefined;
+  visit(tree, (node) => {
+    if (node.type === 'heading') heading = node;
+    else if (node.type === 'code' && titled.has(node)) parents.set(node, heading);
+  });
+
+  const inserted = new Set<TocEntry>();
+  for (const { node, attributes } of blocks) {
+    if (!parents.has(node)) continue;
+    const parent = parents.get(node);
+    const parentId = (parent?.data as { hProperties?: { id?: unknown } } | undefined)?.hProperties?.id;
+
+    let index = parentId ? toc.findIndex((entry) => entry.url === `#${String(parentId)}`) + 1 : 0;
+    // Keep figures under the same heading in document order
+    while (index < toc.length && inserted.has(toc[index])) index++;
+
+    const entry: TocEntry = {
+      title: `${attributes.label}: ${attributes.title}`,
+      url: `#${attributes.id}`,
+      depth: Math.min((parent?.depth ?? 1) + 1, 6),
+    };
+    toc.splice(index, 0, entry);
+    inserted.add(entry);
+  }
+}
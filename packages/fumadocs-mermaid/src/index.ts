@@ -5,3 +5,6 @@
  */
 
 export { remarkMdxMermaid, type RemarkMdxMermaidOptions } from './remark-mdx-mermaid';
+export type { PrerenderOptions, PrerenderFunction } from './prerender';
+export type { FigureOptions } from './figures';
+export type { CheckLinksOptions } from './links';
@@ -0,0 +1,131 @@
+import { readdir } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface CheckLinksOptions {
+  /**
+   * Content directory of the Fumadocs source, relative to the working directory.
+   * Page URLs are derived from file names, it is read once per process.
+   * @example 'content/docs'
+   */
+  dir?: string;
+
+  /**
+   * URLs of the source's pages, used instead of reading `dir`. Pass them when
+   * slugs don't follow file names, e.g. with custom slugs or i18n prefixes.
+   */
+  urls?: string[];
+
+  /**
+   * Base URL of the source's pages, only links below it are checked
+   * @example '/docs'
+   */
+  baseUrl: string;
+
+  /**
+   * - `'warn'`: report broken links as warnings
+   * - `'error'`: fail the build
+   * @defaultValue 'warn'
+   */
+  level?: 'warn' | 'error';
+}
+
+export interface MermaidLink {
+  href: string;
+
+  /**
+   * Line inside the chart, starting at 1
+   */
+  line: number;
+}
+
+// click A "/docs/page", click A href "/docs/page" "Tooltip" _blank
+const CLICK_LINK = /^\s*click\s+\S+\s+(?:href\s+)?"([^"]+)"/;
+// link Alice: Dashboard @ /docs/dashboard
+const SEQUENCE_LINK = /^\s*link\s+[^:]+:[^@]*@\s*(\S+)/;
+
+/**
+ * Links of `click` directives and sequence diagram actor menus
+ */
+export function findMermaidLinks(chart: string): MermaidLink[] {
+  const links: MermaidLink[] = [];
+
+  for (const [i, line] of chart.split('\n').entries()) {
+    const href = (CLICK_LINK.exec(line) ?? SEQUENCE_LINK.exec(line))?.[1];
+    if (href) links.push({ href, line: i + 1 });
+  }
+
+  return links;
+}
+
+function normalizeUrl(url: string): string {
+  let pathname = url.replace(/[?#].*$/, '');
+  try {
+    pathname = decodeURI(pathname);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  return pathname.replace(/\/+$/, '') || '/';
+}
+
+/**
+ * URLs of the pages in a content directory, following Fumadocs' slug rules:
+ * `index` files map to their folder and `(group)` folders are left out
+ */
+async function readPageUrls(dir: string, baseUrl: string): Promise<Set<string>> {
+  const files = await readdir(dir, { recursive: true });
+  const urls = new Set<string>();
+
+  for (const file of files) {
+    if (!/\.mdx?$/.test(file)) continue;
+
+    const segments = file
+      .replace(/\.mdx?$/, '')
+      .split(path.sep)
+      .filter((segment) => !/^\(.+\)$/.test(segment));
+    if (segments.at(-1) === 'index') segments.pop();
+
+    urls.add(normalizeUrl([baseUrl, ...segments].join('/')));
+  }
+
+  return urls;
+}
+
+const pageUrls = new Map<string, Promise<Set<string>>>();
+
+/**
+ * Page URLs of the options, the content directory is only read once for all MDX files
+ */
+function getPageUrls({ dir, urls, baseUrl }: CheckLinksOptions): Promise<Set<string>> {
+  if (urls) return Promise.resolve(new Set(urls.map(normalizeUrl)));
+  if (!dir) return Promise.reject(new Error('checkLinks needs a `dir` or `urls`'));
+
+  const resolved = path.resolve(dir);
+  const key = `${resolved}\0${baseUrl}`;
+  let cached = pageUrls.get(key);
+  if (!cached) {
+    cached = readPageUrls(resolved, baseUrl);
+    pageUrls.set(key, cached);
+    cached.catch(() => pageUrls.delete(key));
+  }
+  return cached;
+}
+
+/**
+ * Links of each chart that point below `baseUrl` but have no page in `dir`
+ */
+export async function findBrokenLinks(charts: string[], options: CheckLinksOptions): Promise<MermaidLink[][]> {
+  const links = charts.map(findMermaidLinks);
+  if (!links.some((items) => items.length > 0)) return links;
+
+  const base = normalizeUrl(options.baseUrl);
+  const urls = await getPageUrls(options);
+
+  return links.map((items) =>
+    items.filter(({ href }) => {
+      if (!href.startsWith('/')) return false;
+      const url = normalizeUrl(href);
+      const inSource = base === '/' || url === base || url.startsWith(`${base}/`);
+      return inSource && !urls.has(url);
+    }),
+  );
+}
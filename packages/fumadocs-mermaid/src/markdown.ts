@@ -0,0 +1,77 @@
+import type { Processor } from 'unified';
+
+/**
+ * Original code block of a converted `<Mermaid />` element, kept on `node.data`
+ */
+export interface MermaidSourceData {
+  code: string;
+  title?: string;
+  caption?: string;
+  label?: string;
+}
+
+/**
+ * - `'source'`: the original mermaid code block
+ * - `'figure'`: the code block, with the figure title above and its caption below
+ * - `'jsx'`: the `<Mermaid />` element with its attributes
+ */
+export type MermaidMarkdownMode = 'source' | 'figure' | 'jsx';
+
+type Handle = (node: unknown, parent: unknown, state: unknown, info: unknown) => string;
+
+interface ToMarkdownExtension {
+  handlers?: Record<string, Handle>;
+  extensions?: ToMarkdownExtension[];
+}
+
+function findHandler(extensions: ToMarkdownExtension[], exclude: ToMarkdownExtension): Handle | undefined {
+  let handler: Handle | undefined;
+  for (const extension of extensions) {
+    if (extension === exclude) continue;
+    if (extension.extensions) handler = findHandler(extension.extensions, exclude) ?? handler;
+    handler = extension.handlers?.mdxJsxFlowElement ?? handler;
+  }
+  return handler;
+}
+
+function toFence(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((ticks) => ticks.length));
+  const fence = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}mermaid\n${code}\n${fence}`;
+}
+
+function toMarkdown(source: MermaidSourceData, mode: MermaidMarkdownMode): string {
+  const fence = toFence(source.code);
+  if (mode !== 'figure') return fence;
+
+  const heading = source.label && source.title ? `${source.label}: ${source.title}` : source.label ?? source.title;
+  return [heading && `**${heading}**`, fence, source.caption].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Serialize converted diagrams back to mermaid code blocks when the MDX tree is
+ * turned into Markdown (e.g. `includeProcessedMarkdown` of Fumadocs MDX), while
+ * the compiled page still renders `<Mermaid />`.
+ *
+ * Other JSX elements, and diagrams in `'jsx'` mode, are passed to the handler of `remark-mdx`.
+ */
+export function registerMermaidToMarkdown(processor: Processor, mode: MermaidMarkdownMode) {
+  const data = processor.data() as { toMarkdownExtensions?: ToMarkdownExtension[] };
+  const extensions = (data.toMarkdownExtensions ??= []);
+
+  const extension: ToMarkdownExtension = {
+    handlers: {
+      mdxJsxFlowElement(node, parent, state, info) {
+        const source = (node as { data?: { mermaidSource?: MermaidSourceData } }).data?.mermaidSource;
+        if (source && mode !== 'jsx') return toMarkdown(source, mode);
+
+        const fallback = findHandler(extensions, extension);
+        if (!fallback) throw new Error('Cannot handle unknown node `mdxJsxFlowElement`');
+        // The children of `<Mermaid />` only hold search entries
+        return fallback(source ? { ...(node as object), children: [] } : node, parent, state, info);
+      },
+    },
+  };
+
+  extensions.push(extension);
+}
@@ -0,0 +1,180 @@
+export interface MermaidConfig {
+  theme?: string;
+  themeCSS?: string;
+  packet?: {
+    rowHeight?: number;
+    bitsPerRow?: number;
+    showBits?: boolean;
+  };
+  flowchart?: {
+    nodeSpacing?: number;
+    rankSpacing?: number;
+    curve?: string;
+  };
+  sequence?: {
+    mirrorActors?: boolean;
+    messageAlign?: string;
+  };
+  [key: string]: unknown;
+}
+
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Coerce an attribute value to the type Mermaid expects.
+ * Flags without a value (`sequence.mirrorActors`) become `true`.
+ */
+function coerceAttributeValue(value: string | null): unknown {
+  if (value === null || value === 'true') return true;
+  if (value === 'false') return false;
+  if (value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+/**
+ * Map dotted attributes like `gantt.barHeight="30"` onto the nested config.
+ */
+function applyDottedAttributes(config: MermaidConfig, parsed: Record<string, string | null>) {
+  for (const [name, value] of Object.entries(parsed)) {
+    if (!name.includes('.')) continue;
+
+    const path = name.split('.');
+    if (path.some((key) => key === '' || UNSAFE_KEYS.has(key))) continue;
+
+    let target: Record<string, unknown> = config;
+    for (const key of path.slice(0, -1)) {
+      if (!isPlainObject(target[key])) target[key] = {};
+      target = target[key] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = coerceAttributeValue(value);
+  }
+}
+
+/**
+ * Find dotted attributes that don't match a key of Mermaid's default config,
+ * e.g. typos like `gantt.barHieght`. Keys below `themeVariables` aren't checked
+ * as they depend on the theme.
+ */
+export function findUnknownConfigKeys(parsed: Record<string, string | null>, defaultConfig: object): string[] {
+  const unknown: string[] = [];
+
+  for (const name of Object.keys(parsed)) {
+    if (!name.includes('.')) continue;
+
+    let current: unknown = defaultConfig;
+    for (const key of name.split('.')) {
+      // Can't tell what is allowed below a leaf or inside themeVariables
+      if (!isPlainObject(current)) break;
+      if (!Object.hasOwn(current, key)) {
+        unknown.push(name);
+        break;
+      }
+      if (key === 'themeVariables') break;
+      current = current[key];
+    }
+  }
+
+  return unknown;
+}
+
+/**
+ * Build Mermaid config from flat attributes parsed from code block meta.
+ * Maps flat attributes to Mermaid's nested configuration structure,
+ * dotted attributes like `er.layoutDirection="LR"` are set as-is.
+ */
+export function buildMermaidConfig(configStr: string | undefined, themeOverride: string | undefined): MermaidConfig {
+  if (!configStr) {
+    return themeOverride ? { theme: themeOverride } : {};
+  }
+
+  let parsed: Record<string, string | null>;
+  try {
+    parsed = JSON.parse(configStr);
+  } catch {
+    return themeOverride ? { theme: themeOverride } : {};
+  }
+
+  // Check if it's already a nested config (has 'config' key)
+  if (parsed.config) {
+    try {
+      const nestedConfig = JSON.parse(parsed.config as string);
+      // Merge with any flat attributes
+      const result: MermaidConfig = { ...nestedConfig };
+      if (parsed.theme) result.theme = parsed.theme as string;
+      if (themeOverride) result.theme = themeOverride;
+      applyDottedAttributes(result, parsed);
+      return result;
+    } catch {
+      // Fall through to flat attribute handling
+    }
+  }
+
+  const config: MermaidConfig = {};
+
+  // Theme: code block attribute takes priority, then fall back to system theme
+  if (parsed.theme) {
+    config.theme = parsed.theme;
+  } else if (themeOverride) {
+    config.theme = themeOverride;
+  }
+
+  // Packet diagram options
+  const packetOptions: MermaidConfig['packet'] = {};
+  if (parsed.rowHeight) packetOptions.rowHeight = parseInt(parsed.rowHeight, 10);
+  if (parsed.bitsPerRow) packetOptions.bitsPerRow = parseInt(parsed.bitsPerRow, 10);
+  if (parsed.showBits) packetOptions.showBits = parsed.showBits === 'true';
+  if (Object.keys(packetOptions).length > 0) config.packet = packetOptions;
+
+  // Flowchart options
+  const flowchartOptions: MermaidConfig['flowchart'] = {};
+  if (parsed.nodeSpacing) flowchartOptions.nodeSpacing = parseInt(parsed.nodeSpacing, 10);
+  if (parsed.rankSpacing) flowchartOptions.rankSpacing = parseInt(parsed.rankSpacing, 10);
+  if (parsed.curve) flowchartOptions.curve = parsed.curve;
+  if (Object.keys(flowchartOptions).length > 0) config.flowchart = flowchartOptions;
+
+  // Sequence diagram options
+  const sequenceOptions: MermaidConfig['sequence'] = {};
+  if (parsed.mirrorActors) sequenceOptions.mirrorActors = parsed.mirrorActors === 'true';
+  if (parsed.messageAlign) sequenceOptions.messageAlign = parsed.messageAlign;
+  if (Object.keys(sequenceOptions).length > 0) config.sequence = sequenceOptions;
+
+  // Generic options for any diagram type, e.g. gantt.barHeight="30"
+  applyDottedAttributes(config, parsed);
+
+  return config;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep merge two Mermaid configs, values from `override` take priority.
+ */
+export function mergeMermaidConfig(base: MermaidConfig, override: MermaidConfig): MermaidConfig {
+  const result: MermaidConfig = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    const baseValue = result[key];
+    result[key] = isPlainObject(baseValue) && isPlainObject(value)
+      ? mergeMermaidConfig(baseValue, value)
+      : value;
+  }
+
+  return result;
+}
+
+/**
+ * Chart as Mermaid sees it: literal `\n` of JSX `chart="..."` props become line breaks
+ */
+export function normalizeChart(chart: string): string {
+  return chart.replaceAll('\\n', '\n');
+}
+
+/**
+ * Prepend a Mermaid init directive so each diagram is rendered with its own
+ * config instead of whatever was last passed to `mermaid.initialize`.
+ */
+export function withInitDirective(chart: string, config: MermaidConfig): string {
+  return `%%{init: ${JSON.stringify(config)}}%%\n` + normalizeChart(chart);
+}
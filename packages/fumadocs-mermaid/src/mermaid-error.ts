@@ -0,0 +1,46 @@
+export interface MermaidErrorInfo {
+  message: string;
+
+  /**
+   * 1-based line in the chart source, when Mermaid reports a position
+   */
+  line?: number;
+}
+
+/**
+ * Extract a readable message and the offending line from a Mermaid parse or render error.
+ *
+ * `chart` is the source without the init directive from `withInitDirective`,
+ * which takes up the first line of what Mermaid actually parsed.
+ */
+export function parseMermaidError(error: unknown, chart: string): MermaidErrorInfo {
+  let message = error instanceof Error ? error.message : String(error);
+  const lines = chart.replaceAll('\\n', '\n').split('\n');
+  let line: number | undefined;
+
+  // Jison based parsers (flowchart, sequence, ...): "Parse error on line 4:"
+  // Langium based parsers (packet, pie, ...): "Lexer error on line 2, column 3: ..."
+  const lineMatch = /\bline (\d+)/i.exec(message);
+  if (lineMatch) {
+    line = Number(lineMatch[1]) - 1;
+  } else {
+    // Langium parser errors only report a character offset into the text after
+    // the directive is stripped, which leaves its line break behind.
+    const offsetMatch = /\boffset:? (\d+)/i.exec(message);
+    if (offsetMatch) {
+      const before = ('\n' + lines.join('\n')).slice(0, Number(offsetMatch[1]));
+      line = before.split('\n').length - 1;
+    }
+  }
+
+  if (line !== undefined) {
+    line = Math.min(Math.max(line, 1), lines.length);
+  }
+
+  // Mermaid counts the line of the init directive, the message should match the reported line
+  if (lineMatch && line !== undefined) {
+    message = message.replace(lineMatch[0], lineMatch[0].replace(lineMatch[1], String(line)));
+  }
+
+  return { message, line };
+}
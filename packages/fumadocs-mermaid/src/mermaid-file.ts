@@ -0,0 +1,36 @@
+import { readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import type { VFile } from 'vfile';
+
+/**
+ * Compiler hooks that Fumadocs MDX passes on `file.data`
+ */
+interface MdxCompiler {
+  addDependency: (file: string) => void;
+}
+
+/**
+ * Read a diagram file referenced by a code block's `file` attribute,
+ * relative to the MDX file.
+ *
+ * The content ends up in the page, so files outside `root` (relative to the
+ * working directory) are rejected, e.g. `../../.env`.
+ *
+ * The file is registered as a dependency of the MDX file, so editing it
+ * reloads the page in development.
+ */
+export async function readMermaidFile(filePath: string, file: VFile, root = '.'): Promise<{ path: string; content: string }> {
+  const base = file.path ? path.dirname(path.resolve(file.cwd, file.path)) : file.cwd;
+  const resolved = path.resolve(base, filePath);
+  const resolvedRoot = path.resolve(file.cwd, root);
+
+  const relative = path.relative(resolvedRoot, resolved);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`the file is outside of ${resolvedRoot}`);
+  }
+
+  (file.data._compiler as MdxCompiler | undefined)?.addDependency(resolved);
+
+  const content = await readFile(resolved, 'utf8');
+  return { path: resolved, content };
+}
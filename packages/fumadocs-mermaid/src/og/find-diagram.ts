@@ -0,0 +1,95 @@
+import { type DiagramType, getDiagramBody, getDiagramType } from '../parse/diagram';
+import { parseFlowchart } from '../parse/flowchart';
+import { parseSequence } from '../parse/sequence';
+import { layoutFlowchart } from './flowchart';
+import type { Scene } from './scene';
+import { layoutSequence } from './sequence';
+
+export interface FindOgDiagramOptions {
+  /**
+   * Language identifier(s) of mermaid code blocks, should match `remarkMdxMermaid`
+   * @defaultValue 'mermaid'
+   */
+  lang?: string | string[];
+
+  /**
+   * Meta flag that picks the diagram of the page, e.g. ```` ```mermaid og ````
+   * @defaultValue 'og'
+   */
+  flag?: string;
+}
+
+const OPENING_FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const CLOSING_FENCE = /^ {0,3}(`{3,}|~{3,})\s*$/;
+
+/**
+ * Diagram types that can be drawn without a browser
+ */
+export function getOgDiagramType(chart: string): DiagramType | undefined {
+  return getDiagramType(chart);
+}
+
+/**
+ * Lay out a diagram for the Open Graph image, `undefined` when its type can't be
+ * drawn or it has nothing to draw (e.g. only `classDef` statements)
+ */
+export function layoutOgDiagram(chart: string): Scene | undefined {
+  const body = getDiagramBody(chart);
+  let scene: Scene | undefined;
+  switch (getOgDiagramType(chart)) {
+    case 'flowchart':
+      scene = layoutFlowchart(parseFlowchart(body));
+      break;
+    case 'sequence':
+      scene = layoutSequence(parseSequence(body));
+      break;
+  }
+
+  return scene && scene.boxes.length > 0 ? scene : undefined;
+}
+
+function hasFlag(meta: string, flag: string): boolean {
+  return meta.split(/\s+/).includes(flag);
+}
+
+/**
+ * Find the diagram for the Open Graph image in a page's Markdown source:
+ * the code block with the `og` flag, otherwise the first one that can be drawn.
+ * Diagrams with nothing to draw are skipped.
+ *
+ * Code blocks nested in other code blocks (e.g. examples in ```` ```md ````) and
+ * blocks with the `raw` flag are ignored.
+ *
+ * @example
+ * ```ts
+ * const chart = findOgDiagram(await page.data.getText('raw'));
+ * ```
+ */
+export function findOgDiagram(markdown: string, { lang = 'mermaid', flag = 'og' }: FindOgDiagramOptions = {}): string | undefined {
+  const langs = Array.isArray(lang) ? lang : [lang];
+  const diagrams: { chart: string; flagged: boolean }[] = [];
+  let open: { fence: string; meta: string; lines?: string[] } | undefined;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (open) {
+      const close = CLOSING_FENCE.exec(line);
+      if (close && close[1][0] === open.fence[0] && close[1].length >= open.fence.length) {
+        if (open.lines) diagrams.push({ chart: open.lines.join('\n'), flagged: hasFlag(open.meta, flag) });
+        open = undefined;
+      } else {
+        open.lines?.push(line);
+      }
+      continue;
+    }
+
+    const match = OPENING_FENCE.exec(line);
+    if (!match) continue;
+
+    const [language = '', ...meta] = match[2].trim().split(/\s+/);
+    const isDiagram = langs.includes(language) && !hasFlag(meta.join(' '), 'raw');
+    open = { fence: match[1], meta: meta.join(' '), lines: isDiagram ? [] : undefined };
+  }
+
+  const drawable = diagrams.filter(({ chart }) => layoutOgDiagram(chart));
+  return (drawable.find(({ flagged }) => flagged) ?? drawable[0])?.chart;
+}
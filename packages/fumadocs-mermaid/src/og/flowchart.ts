@@ -0,0 +1,153 @@
+import type { Flowchart } from '../parse/flowchart';
+import { measureLabel, type Scene, type SceneBox, type SceneLine } from './scene';
+
+/**
+ * Layer of each node: the longest path from a source, ignoring edges that close a cycle
+ */
+function rankNodes(chart: Flowchart): Map<string, number> {
+  const outgoing = new Map<string, string[]>();
+  for (const { from, to } of chart.edges) {
+    if (from !== to) outgoing.set(from, [...(outgoing.get(from) ?? []), to]);
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const forward: [string, string][] = [];
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const to of outgoing.get(id) ?? []) {
+      if (state.get(to) === 'visiting') continue;
+      forward.push([id, to]);
+      if (!state.has(to)) visit(to);
+    }
+    state.set(id, 'done');
+  };
+  for (const id of chart.nodes.keys()) {
+    if (!state.has(id)) visit(id);
+  }
+
+  const ranks = new Map<string, number>([...chart.nodes.keys()].map((id) => [id, 0]));
+  // Relax until stable, bounded by the number of nodes on an acyclic graph
+  for (let i = 0; i < chart.nodes.size; i++) {
+    let changed = false;
+    for (const [from, to] of forward) {
+      const rank = (ranks.get(from) ?? 0) + 1;
+      if (rank > (ranks.get(to) ?? 0)) {
+        ranks.set(to, rank);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return ranks;
+}
+
+const LAYER_GAP = 56;
+const NODE_GAP = 32;
+
+function boxCenter(box: SceneBox): [number, number] {
+  return [box.x + box.width / 2, box.y + box.height / 2];
+}
+
+/**
+ * Point where the line from the center of a box towards `[x, y]` leaves the box
+ */
+function boxBorder(box: SceneBox, [x, y]: [number, number]): [number, number] {
+  const [cx, cy] = boxCenter(box);
+  const dx = x - cx;
+  const dy = y - cy;
+  if (dx === 0 && dy === 0) return [cx, cy];
+
+  const t = box.shape === 'diamond'
+    ? 1 / (Math.abs(dx) / (box.width / 2) + Math.abs(dy) / (box.height / 2))
+    : Math.min(dx === 0 ? Infinity : box.width / 2 / Math.abs(dx), dy === 0 ? Infinity : box.height / 2 / Math.abs(dy));
+  return [cx + dx * t, cy + dy * t];
+}
+
+/**
+ * Simple layered layout: nodes are ranked by their longest incoming path,
+ * and ordered within a layer by the position of their parents.
+ */
+export function layoutFlowchart(chart: Flowchart): Scene {
+  const ranks = rankNodes(chart);
+  const layers: string[][] = [];
+  for (const [id, rank] of ranks) (layers[rank] ??= []).push(id);
+
+  // One barycenter sweep to reduce crossings
+  const order = new Map<string, number>();
+  for (const layer of layers) {
+    const position = (id: string) => {
+      const parents = chart.edges.filter((edge) => edge.to === id && order.has(edge.from)).map((edge) => order.get(edge.from) ?? 0);
+      return parents.length > 0 ? parents.reduce((a, b) => a + b, 0) / parents.length : Infinity;
+    };
+    const positions = new Map(layer.map((id, i) => [id, [position(id), i] as const]));
+    layer.sort((a, b) => {
+      const [pa, ia] = positions.get(a) ?? [0, 0];
+      const [pb, ib] = positions.get(b) ?? [0, 0];
+      return pa === pb ? ia - ib : pa - pb;
+    });
+    layer.forEach((id, i) => order.set(id, i));
+  }
+
+  const horizontal = chart.direction === 'LR' || chart.direction === 'RL';
+  const sizes = new Map([...chart.nodes.values()].map((node) => {
+    const size = measureLabel(node.label);
+    // The label has to fit inside the diamond
+    return [node.id, node.shape === 'diamond' ? { width: size.width * 1.4, height: size.height * 1.6 } : size];
+  }));
+  // Size along the rank axis and across it
+  const along = (id: string) => (horizontal ? sizes.get(id)!.width : sizes.get(id)!.height);
+  const across = (id: string) => (horizontal ? sizes.get(id)!.height : sizes.get(id)!.width);
+
+  const layerDepths = layers.map((layer) => Math.max(...layer.map(along)));
+  const layerBreadths = layers.map((layer) => layer.reduce((sum, id) => sum + across(id), 0) + NODE_GAP * (layer.length - 1));
+  const breadth = Math.max(...layerBreadths, 0);
+  const depth = layerDepths.reduce((sum, d) => sum + d, 0) + LAYER_GAP * Math.max(layers.length - 1, 0);
+
+  const boxes = new Map<string, SceneBox>();
+  let offset = 0;
+  for (const [rank, layer] of layers.entries()) {
+    // Center each layer across the diagram
+    let position = (breadth - layerBreadths[rank]) / 2;
+    for (const id of layer) {
+      const size = sizes.get(id)!;
+      const rankPosition = offset + (layerDepths[rank] - along(id)) / 2;
+      const node = chart.nodes.get(id)!;
+      boxes.set(id, {
+        x: horizontal ? rankPosition : position,
+        y: horizontal ? position : rankPosition,
+        width: size.width,
+        height: size.height,
+        label: node.label,
+        shape: node.shape,
+      });
+      position += across(id) + NODE_GAP;
+    }
+    offset += layerDepths[rank] + LAYER_GAP;
+  }
+
+  const width = horizontal ? depth : breadth;
+  const height = horizontal ? breadth : depth;
+
+  // Flip reversed directions
+  for (const box of boxes.values()) {
+    if (chart.direction === 'BT') box.y = height - box.y - box.height;
+    if (chart.direction === 'RL') box.x = width - box.x - box.width;
+  }
+
+  const lines: SceneLine[] = [];
+  for (const edge of chart.edges) {
+    const from = boxes.get(edge.from);
+    const to = boxes.get(edge.to);
+    if (!from || !to || from === to) continue;
+
+    lines.push({
+      points: [boxBorder(from, boxCenter(to)), boxBorder(to, boxCenter(from))],
+      dashed: edge.dashed,
+      arrow: edge.arrow,
+      label: edge.label,
+    });
+  }
+
+  return { width, height, boxes: [...boxes.values()], lines };
+}
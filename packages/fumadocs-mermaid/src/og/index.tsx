@@ -0,0 +1,226 @@
+/**
+ * fumadocs-mermaid/og
+ *
+ * Draw a page's diagram into its Open Graph image with `next/og`,
+ * at build time without a browser or network access
+ */
+
+import type { CSSProperties, ReactElement } from 'react';
+import { layoutOgDiagram } from './find-diagram';
+import { FONT_SIZE, LINE_HEIGHT, measureLabel, type Scene, type SceneLine } from './scene';
+
+export { findOgDiagram, getOgDiagramType, type FindOgDiagramOptions } from './find-diagram';
+
+export interface MermaidOgColors {
+  background: string;
+  foreground: string;
+  muted: string;
+  node: string;
+  border: string;
+  line: string;
+}
+
+export interface MermaidOgImageProps {
+  /**
+   * Mermaid source, e.g. from `findOgDiagram()`. Flowcharts and sequence diagrams are supported.
+   */
+  chart: string;
+
+  /**
+   * Page title shown above the diagram
+   */
+  title?: string;
+
+  /**
+   * Site name shown above the title
+   */
+  site?: string;
+
+  /**
+   * Should match the size passed to `ImageResponse`
+   * @defaultValue 1200
+   */
+  width?: number;
+
+  /**
+   * @defaultValue 630
+   */
+  height?: number;
+
+  colors?: Partial<MermaidOgColors>;
+}
+
+const DEFAULT_COLORS: MermaidOgColors = {
+  background: '#0a0a0a',
+  foreground: '#fafafa',
+  muted: '#a1a1aa',
+  node: '#18181b',
+  border: '#52525b',
+  line: '#a1a1aa',
+};
+
+const PADDING = 56;
+const MAX_SCALE = 2;
+
+/**
+ * Middle of the middle segment of a line
+ */
+function labelAnchor(points: SceneLine['points']): [number, number] {
+  const i = Math.max(Math.floor((points.length - 1) / 2), 0);
+  const [x1, y1] = points[i];
+  const [x2, y2] = points[Math.min(i + 1, points.length - 1)];
+  return [(x1 + x2) / 2, (y1 + y2) / 2];
+}
+
+function arrowHead(points: SceneLine['points'], size: number): string | undefined {
+  if (points.length < 2) return undefined;
+  const [x1, y1] = points[points.length - 2];
+  const [x2, y2] = points[points.length - 1];
+  const length = Math.hypot(x2 - x1, y2 - y1);
+  if (length === 0) return undefined;
+
+  const ux = (x2 - x1) / length;
+  const uy = (y2 - y1) / length;
+  const base: [number, number] = [x2 - ux * size, y2 - uy * size];
+  return [
+    [x2, y2],
+    [base[0] - uy * size * 0.6, base[1] + ux * size * 0.6],
+    [base[0] + uy * size * 0.6, base[1] - ux * size * 0.6],
+  ].map((point) => point.join(',')).join(' ');
+}
+
+/**
+ * Open Graph image of a mermaid diagram, to render with `next/og`'s `ImageResponse`.
+ *
+ * The diagram is laid out with a simplified algorithm instead of Mermaid itself,
+ * which needs a browser. Returns `null` for unsupported diagram types and diagrams
+ * with nothing to draw.
+ *
+ * @example
+ * ```tsx
+ * const chart = findOgDiagram(await page.data.getText('raw'));
+ *
+ * return new ImageResponse(
+ *   chart
+ *     ? <MermaidOgImage chart={chart} title={page.data.title} site="My App" />
+ *     : <DefaultImage title={page.data.title} description={page.data.description} site="My App" />,
+ *   { width: 1200, height: 630 },
+ * );
+ * ```
+ */
+export function MermaidOgImage({ chart, title, site, width = 1200, height = 630, colors: colorOverrides }: MermaidOgImageProps): ReactElement | null {
+  const scene = layoutOgDiagram(chart);
+  if (!scene) return null;
+
+  const colors = { ...DEFAULT_COLORS, ...colorOverrides };
+  const headerHeight = (site ? 40 : 0) + (title ? 72 : 0);
+  const areaWidth = width - PADDING * 2;
+  const areaHeight = height - PADDING * 2 - headerHeight;
+  const scale = Math.min(areaWidth / scene.width, areaHeight / scene.height, MAX_SCALE);
+  const offsetX = (areaWidth - scene.width * scale) / 2;
+  const offsetY = (areaHeight - scene.height * scale) / 2;
+  const fontSize = FONT_SIZE * scale;
+  const strokeWidth = Math.max(1.5 * scale, 1);
+
+  const point = ([x, y]: [number, number]): [number, number] => [offsetX + x * scale, offsetY + y * scale];
+  const text: CSSProperties = { fontSize, lineHeight: `${LINE_HEIGHT * scale}px`, textAlign: 'center', justifyContent: 'center' };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: '100%',
+        height: '100%',
+        padding: PADDING,
+        background: colors.background,
+        color: colors.foreground,
+      }}
+    >
+      {site && <p style={{ margin: 0, height: 40, fontSize: 24, color: colors.muted }}>{site}</p>}
+      {title && <p style={{ margin: 0, height: 72, fontSize: 48, fontWeight: 700 }}>{title}</p>}
+      <div style={{ display: 'flex', position: 'relative', width: areaWidth, height: areaHeight }}>
+        <svg
+          width={areaWidth}
+          height={areaHeight}
+          viewBox={`0 0 ${areaWidth} ${areaHeight}`}
+          style={{ position: 'absolute', left: 0, top: 0, width: areaWidth, height: areaHeight }}
+        >
+          {scene.boxes.filter((box) => box.shape === 'diamond').map((box, i) => {
+            const [x, y] = point([box.x, box.y]);
+            const w = box.width * scale;
+            const h = box.height * scale;
+            return (
+              <polygon
+                key={i}
+                points={`${x + w / 2},${y} ${x + w},${y + h / 2} ${x + w / 2},${y + h} ${x},${y + h / 2}`}
+                fill={colors.node}
+                stroke={colors.border}
+                strokeWidth={strokeWidth}
+              />
+            );
+          })}
+          {scene.lines.map((line, i) => {
+            const points = line.points.map(point);
+            const head = line.arrow ? arrowHead(points, 10 * scale) : undefined;
+            return (
+              <g key={i}>
+                <polyline
+                  points={points.map((p) => p.join(',')).join(' ')}
+                  fill="none"
+                  stroke={colors.line}
+                  strokeWidth={strokeWidth}
+                  strokeDasharray={line.dashed ? `${6 * scale} ${4 * scale}` : undefined}
+                />
+                {head && <polygon points={head} fill={colors.line} />}
+              </g>
+            );
+          })}
+        </svg>
+        {scene.boxes.map((box, i) => (
+          <div
+            key={i}
+            style={{
+              ...text,
+              display: 'flex',
+              alignItems: 'center',
+              position: 'absolute',
+              left: offsetX + box.x * scale,
+              top: offsetY + box.y * scale,
+              width: box.width * scale,
+              height: box.height * scale,
+              padding: `0 ${8 * scale}px`,
+              background: box.shape === 'diamond' ? 'transparent' : colors.node,
+              border: box.shape === 'diamond' ? 'none' : `${strokeWidth}px solid ${colors.border}`,
+              borderRadius: box.shape === 'round' ? 9999 : 6 * scale,
+            }}
+          >
+            {box.label}
+          </div>
+        ))}
+        {scene.lines.filter((line) => line.label).map((line, i) => {
+          const label = line.label ?? '';
+          const size = measureLabel(label, [6, 2]);
+          const [x, y] = point(labelAnchor(line.points));
+          return (
+            <div
+              key={i}
+              style={{
+                ...text,
+                display: 'flex',
+                position: 'absolute',
+                left: x - (size.width * scale) / 2,
+                top: line.labelAbove ? y - size.height * scale : y - (size.height * scale) / 2,
+                width: size.width * scale,
+                color: colors.muted,
+                background: line.labelAbove ? 'transparent' : colors.background,
+              }}
+            >
+              {label}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * Diagram laid out as plain boxes and lines, so it can be drawn with the
+ * subset of CSS and SVG that `next/og` (Satori) supports.
+ */
+export interface Scene {
+  width: number;
+  height: number;
+  boxes: SceneBox[];
+  lines: SceneLine[];
+}
+
+export interface SceneBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+  shape: 'rect' | 'round' | 'diamond';
+}
+
+export interface SceneLine {
+  points: [number, number][];
+  dashed?: boolean;
+  arrow?: boolean;
+  label?: string;
+
+  /**
+   * Place the label above the middle of the line instead of on it
+   */
+  labelAbove?: boolean;
+}
+
+export const FONT_SIZE = 16;
+export const LINE_HEIGHT = 22;
+const CHAR_WIDTH = FONT_SIZE * 0.58;
+const MAX_TEXT_WIDTH = 200;
+
+/**
+ * Estimate the size of a label box, wrapping long labels.
+ * Fonts aren't measurable without a browser, so this uses an average glyph width.
+ */
+export function measureLabel(label: string, padding: [x: number, y: number] = [16, 12]): { width: number; height: number } {
+  const textWidth = Math.max(label.length, 1) * CHAR_WIDTH;
+  const lines = Math.ceil(textWidth / MAX_TEXT_WIDTH);
+
+  return {
+    width: Math.min(textWidth, MAX_TEXT_WIDTH) + padding[0] * 2,
+    height: lines * LINE_HEIGHT + padding[1] * 2,
+  };
+}
@@ -0,0 +1,72 @@
+import type { SequenceDiagram } from '../parse/sequence';
+import { LINE_HEIGHT, measureLabel, type Scene, type SceneBox, type SceneLine } from './scene';
+
+const COLUMN_GAP = 48;
+const ROW_HEIGHT = LINE_HEIGHT + 28;
+const SELF_MESSAGE_WIDTH = 40;
+
+/**
+ * Most messages shown, the image has to stay readable
+ */
+const MAX_MESSAGES = 10;
+
+/**
+ * Participants side by side with their lifelines, and the first messages as arrows between them
+ */
+export function layoutSequence(diagram: SequenceDiagram): Scene {
+  const ids = [...diagram.participants.keys()];
+  const messages = diagram.messages.slice(0, MAX_MESSAGES);
+  const headers = ids.map((id) => measureLabel(diagram.participants.get(id) ?? id));
+
+  // Columns have to fit the participant and the longest message next to it
+  const columnWidths = ids.map((id, i) => {
+    const labels = messages
+      .filter((message) => message.from === id && message.from !== message.to)
+      .map((message) => measureLabel(message.text).width);
+    return Math.max(headers[i].width, ...labels.map((w) => w / 2));
+  });
+
+  const boxes: SceneBox[] = [];
+  const centers = new Map<string, number>();
+  let x = 0;
+  for (const [i, id] of ids.entries()) {
+    const { width, height } = headers[i];
+    centers.set(id, x + columnWidths[i] / 2);
+    boxes.push({ x: x + (columnWidths[i] - width) / 2, y: 0, width, height, label: diagram.participants.get(id) ?? id, shape: 'rect' });
+    x += columnWidths[i] + COLUMN_GAP;
+  }
+
+  const headerHeight = Math.max(...headers.map((header) => header.height), 0);
+  const rows = messages.length + (diagram.messages.length > messages.length ? 1 : 0);
+  const height = headerHeight + ROW_HEIGHT * (rows + 0.5);
+  const width = Math.max(x - COLUMN_GAP, 0);
+
+  const lines: SceneLine[] = ids.map((id) => ({
+    points: [[centers.get(id) ?? 0, headerHeight], [centers.get(id) ?? 0, height]],
+    dashed: true,
+  }));
+
+  for (const [i, message] of messages.entries()) {
+    const y = headerHeight + ROW_HEIGHT * (i + 1);
+    const from = centers.get(message.from) ?? 0;
+    const to = centers.get(message.to) ?? 0;
+
+    lines.push({
+      points: from === to
+        ? [[from, y - ROW_HEIGHT / 4], [from + SELF_MESSAGE_WIDTH, y - ROW_HEIGHT / 4], [from + SELF_MESSAGE_WIDTH, y], [from, y]]
+        : [[from, y], [to, y]],
+      dashed: message.dashed,
+      arrow: true,
+      label: message.text,
+      labelAbove: true,
+    });
+  }
+
+  if (rows > messages.length) {
+    // Only the label, to show that messages were left out
+    const y = height - ROW_HEIGHT / 2;
+    lines.push({ points: [[width / 2, y], [width / 2, y]], label: '…' });
+  }
+
+  return { width, height, boxes, lines };
+}
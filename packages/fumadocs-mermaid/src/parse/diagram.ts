@@ -0,0 +1,24 @@
+export type DiagramType = 'flowchart' | 'sequence';
+
+/**
+ * Chart without frontmatter, directives and comments, starting with the diagram type
+ */
+export function getDiagramBody(chart: string): string {
+  return chart
+    .replace(/^\s*---\n[\s\S]*?\n---\s*\n/, '')
+    .split('\n')
+    .filter((line) => line.trim() && !line.trim().startsWith('%%'))
+    .join('\n');
+}
+
+/**
+ * Diagram types with a parser in this folder
+ */
+export function getDiagramType(chart: string): DiagramType | undefined {
+  const header = getDiagramBody(chart).split('\n')[0]?.trim();
+
+  if (!header) return undefined;
+  if (/^(graph|flowchart)\b/i.test(header)) return 'flowchart';
+  if (/^sequenceDiagram\b/.test(header)) return 'sequence';
+  return undefined;
+}
@@ -0,0 +1,170 @@
+import { cleanLabel } from './label';
+
+export type Direction = 'TB' | 'BT' | 'LR' | 'RL';
+
+export type NodeShape = 'rect' | 'round' | 'diamond';
+
+export interface FlowNode {
+  id: string;
+  label: string;
+  shape: NodeShape;
+}
+
+export interface FlowEdge {
+  from: string;
+  to: string;
+  label?: string;
+  dashed: boolean;
+  arrow: boolean;
+}
+
+export interface Flowchart {
+  direction: Direction;
+  nodes: Map<string, FlowNode>;
+  edges: FlowEdge[];
+}
+
+/**
+ * Node shapes by their delimiters, longest first
+ */
+const SHAPES: [open: string, close: string, shape: NodeShape][] = [
+  ['(((', ')))', 'round'],
+  ['((', '))', 'round'],
+  ['([', '])', 'round'],
+  ['[[', ']]', 'rect'],
+  ['[(', ')]', 'rect'],
+  ['{{', '}}', 'diamond'],
+  ['[/', '/]', 'rect'],
+  ['[/', '\\]', 'rect'],
+  ['[\\', '\\]', 'rect'],
+  ['[\\', '/]', 'rect'],
+  ['[', ']', 'rect'],
+  ['(', ')', 'round'],
+  ['{', '}', 'diamond'],
+  ['>', ']', 'rect'],
+];
+
+/**
+ * Links like `-->`, `---`, `-.->`, `==>`, `--x`, with an optional `|label|`,
+ * or with the label inside: `-- label -->`
+ */
+const LINK = /\s*(?:(<?(?:--|==|-\.))\s+([^\s|>=-][^|]*?)\s+((?:-{2,}|={2,}|\.+-)[>xo]|-{3,}|={3,})|(<?(?:-{2,}|={2,}|-\.+-)[>xo]?)(?:\s*\|([^|]*)\|)?)\s*/y;
+
+const IGNORED_STATEMENT = /^(subgraph|end|style|classDef|class|click|linkStyle|direction|%%)\b/;
+
+/**
+ * Split at `separator` outside of brackets and quotes
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') quoted = !quoted;
+    else if (quoted) continue;
+    else if ('[({'.includes(char)) depth++;
+    else if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+    else if (depth === 0 && text.startsWith(separator, i)) {
+      parts.push(text.slice(start, i));
+      start = i + separator.length;
+    }
+  }
+
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function parseNode(text: string, nodes: Map<string, FlowNode>): string | undefined {
+  const match = /^([\w$.-]+?)(?:\s*([[({>].*))?(?::::[\w-]+)?$/s.exec(text.trim());
+  if (!match) return undefined;
+
+  const [, id, shapeText] = match;
+  const node = nodes.get(id) ?? { id, label: id, shape: 'rect' };
+
+  if (shapeText) {
+    const shape = SHAPES.find(([open, close]) => shapeText.startsWith(open) && shapeText.endsWith(close));
+    if (shape) {
+      node.label = cleanLabel(shapeText.slice(shape[0].length, -shape[1].length)) || id;
+      node.shape = shape[2];
+    }
+  }
+
+  nodes.set(id, node);
+  return id;
+}
+
+/**
+ * Split a statement like `A[Start] -->|yes| B & C` into node groups and the links between them
+ */
+function parseStatement(statement: string, chart: Flowchart) {
+  const groups: string[][] = [];
+  const links: Omit<FlowEdge, 'from' | 'to'>[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  const pushGroup = (text: string) => {
+    groups.push(splitTopLevel(text, '&').map((part) => parseNode(part, chart.nodes)).filter((id): id is string => id !== undefined));
+  };
+
+  for (let i = 0; i < statement.length; i++) {
+    const char = statement[i];
+    if (char === '"') quoted = !quoted;
+    if (quoted) continue;
+    if ('[({'.includes(char)) depth++;
+    else if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+    if (depth > 0 || char === '"') continue;
+
+    LINK.lastIndex = i;
+    const match = LINK.exec(statement);
+    if (!match || match[0].trim() === '' || i === 0) continue;
+
+    const arrowText = match[3] ?? match[4];
+    const label = match[2] ?? match[5];
+    pushGroup(statement.slice(start, i));
+    links.push({
+      label: label ? cleanLabel(label) : undefined,
+      dashed: arrowText.includes('.'),
+      arrow: /[>xo]$/.test(arrowText),
+    });
+    start = LINK.lastIndex;
+    i = start - 1;
+  }
+
+  pushGroup(statement.slice(start));
+
+  for (let i = 0; i < links.length; i++) {
+    for (const from of groups[i] ?? []) {
+      for (const to of groups[i + 1] ?? []) chart.edges.push({ from, to, ...links[i] });
+    }
+  }
+}
+
+/**
+ * Nodes and edges of a flowchart, enough to lay it out, index its labels or find its
+ * rendered elements. Subgraphs, styles and other statements are ignored.
+ */
+export function parseFlowchart(source: string): Flowchart {
+  const chart: Flowchart = { direction: 'TB', nodes: new Map(), edges: [] };
+  const statements = source
+    .split('\n')
+    .flatMap((line) => splitTopLevel(line, ';'))
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+
+  const header = /^(?:graph|flowchart)(?:\s+(TB|TD|BT|LR|RL))?/i.exec(statements[0] ?? '');
+  if (header?.[1]) chart.direction = header[1].toUpperCase() === 'TD' ? 'TB' : (header[1].toUpperCase() as Direction);
+
+  const [first = '', ...rest] = statements;
+  // `graph TD; A-->B` or `graph LR A-->B`
+  const afterHeader = header ? first.slice(header[0].length).trim() : first;
+  for (const statement of afterHeader ? [afterHeader, ...rest] : rest) {
+    if (IGNORED_STATEMENT.test(statement)) continue;
+    parseStatement(statement, chart);
+  }
+
+  return chart;
+}
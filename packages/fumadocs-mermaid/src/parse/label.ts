@@ -0,0 +1,15 @@
+/**
+ * Mermaid labels may contain HTML line breaks, quotes, markdown and icons
+ */
+export function cleanLabel(label: string): string {
+  return label
+    .replace(/^"(.*)"$/s, '$1')
+    .replace(/^`(.*)`$/s, '$1')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\bfa:fa-[\w-]+/g, '')
+    .replace(/[*_]{1,2}([^*_]+)[*_]{1,2}/g, '$1')
+    .replace(/#quot;/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,46 @@
+import { cleanLabel } from './label';
+
+export interface SequenceMessage {
+  from: string;
+  to: string;
+  text: string;
+  dashed: boolean;
+}
+
+export interface SequenceDiagram {
+  participants: Map<string, string>;
+  messages: SequenceMessage[];
+}
+
+const PARTICIPANT = /^(?:participant|actor)\s+(.+?)(?:\s+as\s+(.+))?$/;
+const MESSAGE = /^(.+?)\s*(<<-->>|<<->>|-->>|->>|-->|->|--x|-x|--\)|-\))\s*[+-]?\s*(.+?)\s*:\s*(.*)$/;
+
+/**
+ * Participants and messages of a sequence diagram
+ */
+export function parseSequence(source: string): SequenceDiagram {
+  const diagram: SequenceDiagram = { participants: new Map(), messages: [] };
+  const addParticipant = (id: string, label = id) => {
+    if (!diagram.participants.has(id)) diagram.participants.set(id, cleanLabel(label));
+  };
+
+  for (const line of source.split('\n').slice(1)) {
+    const statement = line.trim();
+
+    const participant = PARTICIPANT.exec(statement);
+    if (participant) {
+      addParticipant(participant[1], participant[2]);
+      continue;
+    }
+
+    const message = MESSAGE.exec(statement);
+    if (!message) continue;
+
+    const [, from, arrow, to, text] = message;
+    addParticipant(from);
+    addParticipant(to);
+    diagram.messages.push({ from, to, text: cleanLabel(text), dashed: arrow.includes('--') });
+  }
+
+  return diagram;
+}
@@ -0,0 +1,108 @@
+import { createHash } from 'node:crypto';
+import type { MermaidRenderer } from 'mermaid-isomorphic';
+import { buildMermaidConfig, withInitDirective } from './mermaid-config';
+import { sanitizeSvg } from './ui/sanitize';
+
+/**
+ * Render a chart (including its init directive) to an SVG string.
+ * `id` must be used as the DOM id of the root `<svg>` so styles of
+ * different diagrams on the same page don't collide.
+ */
+export type PrerenderFunction = (chart: string, id: string) => Promise<string>;
+
+export interface PrerenderOptions {
+  /**
+   * Mermaid themes used for the light and dark variants.
+   * Blocks with an explicit `theme` attribute are rendered once with that theme.
+   * `'fumadocs'` falls back to `'default'` and `'dark'`, as CSS variables only exist in the browser.
+   * @defaultValue { light: 'default', dark: 'dark' }
+   */
+  themes?: { light: string; dark: string };
+
+  /**
+   * Additional CSS for the diagram, should match the `themeCSS` of `<Mermaid />`
+   * @defaultValue 'margin: 1.5rem auto 0;'
+   */
+  themeCSS?: string;
+
+  /**
+   * Custom renderer. Defaults to `mermaid-isomorphic`, which renders in headless
+   * Chromium through Playwright (install both as dev dependencies).
+   */
+  render?: PrerenderFunction;
+}
+
+export interface PrerenderedSvg {
+  svg: string;
+  svgDark?: string;
+}
+
+let isomorphicRenderer: Promise<MermaidRenderer> | undefined;
+
+const renderWithMermaidIsomorphic: PrerenderFunction = async (chart, id) => {
+  isomorphicRenderer ??= import('mermaid-isomorphic').then((mod) => mod.createMermaidRenderer());
+  const renderer = await isomorphicRenderer;
+
+  const [result] = await renderer([chart], {
+    prefix: id,
+    mermaidConfig: { fontFamily: 'inherit' },
+  });
+  if (result.status === 'rejected') throw result.reason;
+
+  return result.value.svg;
+};
+
+let documentPromise: Promise<Document> | undefined;
+
+/**
+ * Document to sanitize prerendered SVGs with, they are injected into the page as-is
+ */
+function getDocument(): Promise<Document> {
+  documentPromise ??= import('jsdom').then(({ JSDOM }) => new JSDOM('').window.document);
+  return documentPromise;
+}
+
+function createId(chart: string, theme: string): string {
+  const hash = createHash('sha1').update(theme).update('\0').update(chart).digest('hex');
+  return `mermaid-${hash.slice(0, 10)}`;
+}
+
+/**
+ * Render a mermaid code block to static SVG at build time, with the `strict` security level.
+ * Produces a light and a dark variant unless the block sets its own theme.
+ * The SVGs are sanitized like client renders, which needs jsdom.
+ */
+export async function prerenderMermaid(
+  chart: string,
+  config: Record<string, string | null>,
+  options: PrerenderOptions,
+): Promise<PrerenderedSvg> {
+  const {
+    themes = { light: 'default', dark: 'dark' },
+    themeCSS = 'margin: 1.5rem auto 0;',
+    render = renderWithMermaidIsomorphic,
+  } = options;
+  // CSS variables aren't available at build time, the client render applies them after hydration
+  const toStaticTheme = (theme: string, fallback: string) => (theme === 'fumadocs' ? fallback : theme);
+  const { theme: blockTheme, ...rest } = config;
+  const staticConfig = blockTheme === 'fumadocs' ? rest : config;
+  const configStr = Object.keys(staticConfig).length > 0 ? JSON.stringify(staticConfig) : undefined;
+
+  const renderTheme = async (theme: string) => {
+    const diagramConfig = buildMermaidConfig(configStr, theme);
+    diagramConfig.themeCSS = themeCSS;
+    const fullChart = withInitDirective(chart, diagramConfig);
+    const svg = await render(fullChart, createId(fullChart, theme));
+    return sanitizeSvg(svg, false, await getDocument());
+  };
+
+  if (blockTheme && blockTheme !== 'fumadocs') {
+    return { svg: await renderTheme(blockTheme) };
+  }
+
+  const [svg, svgDark] = await Promise.all([
+    renderTheme(toStaticTheme(themes.light, 'default')),
+    renderTheme(toStaticTheme(themes.dark, 'dark')),
+  ]);
+  return { svg, svgDark };
+}
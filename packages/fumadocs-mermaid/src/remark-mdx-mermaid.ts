@@ -1,6 +1,14 @@
 import { visit } from 'unist-util-visit';
-import type { Transformer } from 'unified';
-import type { Root } from 'mdast';
+import type { Processor, Transformer } from 'unified';
+import type { Code, Heading, Root } from 'mdast';
+import type { VFile } from 'vfile';
+import { prerenderMermaid, type PrerenderOptions, type PrerenderedSvg } from './prerender';
+import { findUnknownMermaidConfig, validateMermaid } from './validate';
+import { readMermaidFile } from './mermaid-file';
+import { registerMermaidToMarkdown, type MermaidMarkdownMode, type MermaidSourceData } from './markdown';
+import { addFiguresToToc, assignFigures, resolveFigureReferences, type FigureOptions } from './figures';
+import { createStructureNodes, getDiagramText } from './structure';
+import { findBrokenLinks, type CheckLinksOptions } from './links';
 
 interface MdxJsxAttribute {
   type: 'mdxJsxAttribute';
@@ -12,7 +20,8 @@ interface MdxJsxFlowElement {
   type: 'mdxJsxFlowElement';
   name: string;
   attributes: MdxJsxAttribute[];
-  children: unknown[];
+  children: ReturnType<typeof createStructureNodes>;
+  data: { mermaidSource: MermaidSourceData };
 }
 
 interface CodeBlockAttributes {
@@ -22,11 +31,11 @@ interface CodeBlockAttributes {
 
 /**
  * Parse code block attributes from meta string.
- * Supports formats like: theme="dark" rowHeight="50" or theme='dark'
+ * Supports formats like: theme="dark" rowHeight="50" gantt.barHeight='30'
  */
 function parseCodeBlockAttributes(meta: string): CodeBlockAttributes {
   let str = meta;
-  const regex = /(?<=^|\s)(\w+)(?:=(?:"([^"]*)"|'([^']*)'))?/g;
+  const regex = /(?<=^|\s)([\w.]+)(?:=(?:"([^"]*)"|'([^']*)'))?/g;
   const attributes: Record<string, string | null> = {};
 
   str = str.replaceAll(regex, (match, name, value1, value2) => {
@@ -37,9 +46,58 @@ function parseCodeBlockAttributes(meta: string): CodeBlockAttributes {
   return { rest: str.trim(), attributes };
 }
 
-function toMDX(code: string, parsedAttributes: Record<string, string | null>): MdxJsxFlowElement {
-  // Extract boolean flags before passing rest as config
-  const { exportable, zoomable, ...config } = parsedAttributes;
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Boolean flags passed to `<Mermaid />` as separate attributes, e.g. `zoomable`
+ */
+const COMPONENT_FLAGS = ['exportable', 'forkable', 'showSource', 'zoomable', 'fullscreen', 'minimap', 'highlightConnections', 'textAlternative', 'eager'];
+
+/**
+ * Flags that can also take a value, e.g. `steps` or `steps="A,B;C"`
+ */
+const COMPONENT_VALUE_FLAGS = ['steps'];
+
+/**
+ * String attributes passed to `<Mermaid />` as-is, e.g. `rootMargin="400px"`
+ */
+const COMPONENT_ATTRIBUTES = ['rootMargin', 'securityLevel', 'highlight', 'lightTheme', 'darkTheme', 'exportScale', 'exportBackground', 'filename', 'title', 'caption', 'id', 'label', 'accTitle', 'accDescr'];
+
+/**
+ * Drop the attributes that configure the component itself rather than the diagram
+ */
+function getDiagramConfig(parsedAttributes: Record<string, string | null>): Record<string, string | null> {
+  const config: Record<string, string | null> = {};
+  for (const [name, value] of Object.entries(parsedAttributes)) {
+    if (COMPONENT_FLAGS.includes(name) || COMPONENT_VALUE_FLAGS.includes(name) || COMPONENT_ATTRIBUTES.includes(name)) continue;
+    config[name] = value;
+  }
+  return config;
+}
+
+/**
+ * Search entries of a diagram, linking to its figure anchor if it has one.
+ * `section` is the id of the heading above the diagram.
+ */
+function toStructure(code: string, attributes: Record<string, string | null>, section?: string): MdxJsxFlowElement['children'] {
+  const { id, label, title, caption } = attributes;
+  const anchorTitle = [label, title].filter(Boolean).join(': ') || caption || id;
+
+  return createStructureNodes(getDiagramText(code), id && anchorTitle ? { id, title: anchorTitle } : undefined, section);
+}
+
+function toMDX(
+  code: string,
+  parsedAttributes: Record<string, string | null>,
+  componentName: string,
+  prerendered?: PrerenderedSvg,
+  search?: boolean,
+  section?: string,
+): MdxJsxFlowElement {
+  // Extract component flags before passing rest as config
+  const config = getDiagramConfig(parsedAttributes);
 
   const attributes: MdxJsxAttribute[] = [
     {
@@ -58,38 +116,177 @@ function toMDX(code: string, parsedAttributes: Record<string, string | null>): M
     });
   }
 
-  // Add exportable as a separate boolean attribute
-  if (exportable !== undefined) {
+  // Add flags like exportable and zoomable as separate boolean attributes,
+  // `zoomable="false"` turns off a default from MermaidProvider
+  for (const name of COMPONENT_FLAGS) {
+    if (parsedAttributes[name] === undefined) continue;
     attributes.push({
       type: 'mdxJsxAttribute',
-      name: 'exportable',
-      value: 'true',
+      name,
+      value: parsedAttributes[name] === 'false' ? 'false' : 'true',
     });
   }
 
-  // Add zoomable as a separate boolean attribute
-  if (zoomable !== undefined) {
+  for (const name of COMPONENT_VALUE_FLAGS) {
+    const value = parsedAttributes[name];
+    if (value === undefined) continue;
     attributes.push({
       type: 'mdxJsxAttribute',
-      name: 'zoomable',
-      value: 'true',
+      name,
+      value: value ?? 'true',
     });
   }
 
+  for (const name of COMPONENT_ATTRIBUTES) {
+    const value = parsedAttributes[name];
+    if (value === undefined || value === null) continue;
+    attributes.push({
+      type: 'mdxJsxAttribute',
+      name,
+      value,
+    });
+  }
+
+  // Add build-time rendered SVGs, shown until the client takes over
+  if (prerendered) {
+    attributes.push({
+      type: 'mdxJsxAttribute',
+      name: 'svg',
+      value: prerendered.svg,
+    });
+
+    if (prerendered.svgDark) {
+      attributes.push({
+        type: 'mdxJsxAttribute',
+        name: 'svgDark',
+        value: prerendered.svgDark,
+      });
+    }
+  }
+
   return {
     type: 'mdxJsxFlowElement',
-    name: 'Mermaid',
+    name: componentName,
     attributes,
-    children: [],
+    // Picked up by Fumadocs' `remarkStructure` for the search index, `<Mermaid />` doesn't render children
+    children: search ? toStructure(code, parsedAttributes, section) : [],
+    // Written back as a code block when the tree is serialized to Markdown
+    data: {
+      mermaidSource: {
+        code: code.trim(),
+        title: parsedAttributes.title ?? undefined,
+        caption: parsedAttributes.caption ?? undefined,
+        label: parsedAttributes.label ?? undefined,
+      },
+    },
   };
 }
 
+/**
+ * Convert `defaultAttributes` to the same shape as parsed code block attributes
+ */
+function normalizeDefaultAttributes(defaults: Record<string, string | boolean>): Record<string, string | null> {
+  const attributes: Record<string, string | null> = {};
+  for (const [name, value] of Object.entries(defaults)) {
+    if (value === true) attributes[name] = null;
+    else if (value === false) attributes[name] = 'false';
+    else attributes[name] = value;
+  }
+  return attributes;
+}
+
 export interface RemarkMdxMermaidOptions {
   /**
-   * The language identifier for mermaid code blocks
+   * The language identifier(s) for mermaid code blocks
    * @defaultValue 'mermaid'
    */
-  lang?: string;
+  lang?: string | string[];
+
+  /**
+   * Attributes applied to every code block, as if they were written in its meta.
+   * Use `true` for flags. Attributes of the code block itself take priority.
+   *
+   * @example { exportable: true, theme: 'neutral' }
+   */
+  defaultAttributes?: Record<string, string | boolean>;
+
+  /**
+   * Name of the JSX component that code blocks are converted to, e.g. to wrap `<Mermaid />` in your own component
+   * @defaultValue 'Mermaid'
+   */
+  component?: string;
+
+  /**
+   * Meta flag that keeps a code block as plain highlighted code instead of a diagram.
+   * The flag is removed from the meta.
+   * @defaultValue 'raw'
+   */
+  rawFlag?: string;
+
+  /**
+   * Directory that `file` attributes can read diagrams from, relative to the working directory.
+   * Files outside of it fail the build, as their content is published in the page.
+   * @defaultValue the working directory
+   */
+  fileRoot?: string;
+
+  /**
+   * Render diagrams to static SVG at build time, so they are part of the
+   * generated HTML and show up without client JavaScript.
+   * The `<Mermaid />` component still takes over after hydration.
+   *
+   * Uses `mermaid-isomorphic` unless a custom `render` function is given.
+   * Only blocks with the `strict` security level are prerendered. With a non-strict level in
+   * `MermaidProvider`, set it in `defaultAttributes` too, or these SVGs are discarded on the client.
+   * @defaultValue false
+   */
+  prerender?: boolean | PrerenderOptions;
+
+  /**
+   * Parse every diagram at build time and report syntax errors as messages
+   * on the MDX file, pointing at the line inside the code block.
+   *
+   * - `'warn'`: report warnings, invalid diagrams still render an error panel on the page
+   * - `'error'` (or `true`): report fatal errors, failing the build
+   * @defaultValue false
+   */
+  validate?: boolean | 'warn' | 'error';
+
+  /**
+   * Render blocks with a `title`, `caption` or `id` attribute as numbered figures
+   * ("Figure 3") with stable anchor ids. Links without text to a figure,
+   * `[](#figure-login-flow)`, get its number as text.
+   * @defaultValue false
+   */
+  figures?: boolean | FigureOptions;
+
+  /**
+   * How diagrams appear when the MDX tree is serialized to Markdown, e.g. the
+   * processed Markdown of Fumadocs MDX (`includeProcessedMarkdown`) used for LLM routes.
+   * The rendered page always uses `<Mermaid />`.
+   *
+   * - `'figure'`: a mermaid code block, with the figure title above and its caption below
+   * - `'source'`: only the mermaid code block
+   * - `'jsx'`: the `<Mermaid />` element with its attributes
+   * @defaultValue 'figure'
+   */
+  markdown?: MermaidMarkdownMode;
+
+  /**
+   * Add the text of diagrams (node and edge labels, actor names, messages) to the
+   * page's structured data, so Fumadocs search finds it. Results link to the
+   * diagram's anchor for figures, otherwise to the heading above it.
+   * @defaultValue false
+   */
+  search?: boolean;
+
+  /**
+   * Check at build time that internal links of `click` directives point to
+   * pages of the Fumadocs source. Links outside `baseUrl` aren't checked.
+   *
+   * @example { dir: 'content/docs', baseUrl: '/docs' }
+   */
+  checkLinks?: CheckLinksOptions;
 }
 
 /**
@@ -107,6 +304,26 @@ export interface RemarkMdxMermaidOptions {
  * });
  * ```
  *
+ * @example Build-time rendering
+ * ```ts
+ * remarkPlugins: [[remarkMdxMermaid, { prerender: true }]],
+ * ```
+ *
+ * @example Fail the build on invalid diagrams
+ * ```ts
+ * remarkPlugins: [[remarkMdxMermaid, { validate: 'error' }]],
+ * ```
+ *
+ * @example Multiple languages and defaults
+ * ```ts
+ * remarkPlugins: [[remarkMdxMermaid, { lang: ['mermaid', 'mmd'], defaultAttributes: { exportable: true } }]],
+ * ```
+ *
+ * @example Numbered figures in the table of contents
+ * ```ts
+ * remarkPlugins: [[remarkMdxMermaid, { figures: { toc: true } }]],
+ * ```
+ *
  * @example Per-code-block configuration
  * ```markdown
  * \`\`\`mermaid theme="dark" rowHeight="50"
@@ -114,16 +331,186 @@ export interface RemarkMdxMermaidOptions {
  *   A --> B
  * \`\`\`
  * ```
+ *
+ * @example Diagram from a file, relative to the MDX file
+ * ```markdown
+ * \`\`\`mermaid file="./diagrams/auth-flow.mmd"
+ * \`\`\`
+ * ```
  */
-export function remarkMdxMermaid(options: RemarkMdxMermaidOptions = {}): Transformer<Root, Root> {
-  const { lang = 'mermaid' } = options;
+export function remarkMdxMermaid(this: Processor | void, options: RemarkMdxMermaidOptions = {}): Transformer<Root, Root> {
+  const {
+    lang = 'mermaid',
+    defaultAttributes = {},
+    component = 'Mermaid',
+    rawFlag = 'raw',
+    fileRoot,
+    prerender = false,
+    validate = false,
+    figures = false,
+    markdown = 'figure',
+    search = false,
+    checkLinks,
+  } = options;
+  const langs = Array.isArray(lang) ? lang : [lang];
+  const defaults = normalizeDefaultAttributes(defaultAttributes);
+  const prerenderOptions = prerender === true ? {} : prerender;
+  const validateMode = validate === true ? 'error' : validate;
+  const figureOptions = figures === true ? {} : figures;
+  const rawFlagRegex = new RegExp(`(?<=^|\\s)${escapeRegExp(rawFlag)}(?=\\s|$)`);
+
+  // Keep the mermaid source in processed Markdown
+  if (this) registerMermaidToMarkdown(this, markdown);
 
-  return (tree: Root) => {
-    visit(tree, 'code', (node) => {
-      if (node.lang !== lang || !node.value) return;
+  return async (tree: Root, file: VFile) => {
+    const blocks: { node: Code; attributes: Record<string, string | null>; source?: string; section?: string }[] = [];
+    // Id of the last heading, set by Fumadocs' `remarkHeading`
+    let section: string | undefined;
+
+    visit(tree, ['heading', 'code'], (node) => {
+      if (node.type === 'heading') {
+        const id = ((node as Heading).data as { hProperties?: { id?: unknown } } | undefined)?.hProperties?.id;
+        section = typeof id === 'string' ? id : undefined;
+        return;
+      }
+
+      if (node.type !== 'code' || !node.lang || !langs.includes(node.lang)) return;
 
       const { attributes } = parseCodeBlockAttributes(node.meta ?? '');
-      Object.assign(node, toMDX(node.value, attributes));
+      if (!node.value && !attributes.file) return;
+
+      // Keep as a normal code block
+      if (attributes[rawFlag] !== undefined) {
+        node.meta = node.meta?.replace(rawFlagRegex, '').trim() || null;
+        return;
+      }
+
+      blocks.push({ node, attributes: { ...defaults, ...attributes }, section });
     });
+
+    // Inline diagrams from `file="./diagram.mmd"`
+    await Promise.all(blocks.map(async (block) => {
+      const source = block.attributes.file;
+      if (!source) return;
+
+      try {
+        block.node.value = (await readMermaidFile(source, file, fileRoot)).content.trimEnd();
+      } catch (error) {
+        file.fail(`Failed to read mermaid file "${source}": ${error instanceof Error ? error.message : String(error)}`, {
+          place: block.node.position,
+          source: 'remark-mdx-mermaid',
+          ruleId: 'file',
+        });
+      }
+
+      block.source = source;
+      delete block.attributes.file;
+    }));
+
+    // Warn about typos in dotted config attributes like gantt.barHeight
+    await Promise.all(blocks.map(async ({ node, attributes }) => {
+      for (const name of await findUnknownMermaidConfig(getDiagramConfig(attributes))) {
+        file.message(`Unknown mermaid config attribute "${name}"`, {
+          place: node.position,
+          source: 'remark-mdx-mermaid',
+          ruleId: 'unknown-config',
+        });
+      }
+    }));
+
+    if (validateMode) {
+      const errors = await Promise.all(
+        blocks.map(({ node, attributes }) => validateMermaid(node.value, getDiagramConfig(attributes))),
+      );
+      let fatal: ReturnType<VFile['message']> | undefined;
+
+      for (const [i, { node, source }] of blocks.entries()) {
+        const error = errors[i];
+        if (!error) continue;
+
+        // The chart starts on the line after the opening fence,
+        // lines of imported diagrams are in their own file
+        const start = node.position?.start;
+        const place = start && error.line !== undefined && !source
+          ? { line: start.line + error.line, column: 1 }
+          : node.position;
+        const location = source
+          ? ` in ${source}${error.line !== undefined ? ` on line ${error.line}` : ''}`
+          : '';
+
+        const message = file.message(`Invalid mermaid diagram${location}: ${error.message}`, {
+          place,
+          source: 'remark-mdx-mermaid',
+          ruleId: 'validate',
+        });
+
+        if (validateMode === 'error') {
+          message.fatal = true;
+          fatal ??= message;
+        }
+      }
+
+      // Every invalid diagram is reported before failing
+      if (fatal) throw fatal;
+    }
+
+    if (checkLinks) {
+      const broken = await findBrokenLinks(blocks.map(({ node }) => node.value), checkLinks);
+      let fatal: ReturnType<VFile['message']> | undefined;
+
+      for (const [i, { node, source }] of blocks.entries()) {
+        for (const link of broken[i]) {
+          const start = node.position?.start;
+          const place = start && !source ? { line: start.line + link.line, column: 1 } : node.position;
+          const location = source ? ` in ${source} on line ${link.line}` : '';
+
+          const message = file.message(`Broken link "${link.href}" in mermaid diagram${location}: no page with this URL`, {
+            place,
+            source: 'remark-mdx-mermaid',
+            ruleId: 'link',
+          });
+
+          if (checkLinks.level === 'error') {
+            message.fatal = true;
+            fatal ??= message;
+          }
+        }
+      }
+
+      if (fatal) throw fatal;
+    }
+
+    if (figureOptions) {
+      const labels = assignFigures(blocks, figureOptions, file);
+      resolveFigureReferences(tree, labels, file);
+      if (figureOptions.toc) addFiguresToToc(tree, blocks, file);
+    }
+
+    await Promise.all(blocks.map(async ({ node, attributes, section }) => {
+      let prerendered: PrerenderedSvg | undefined;
+
+      // Static SVGs are rendered with the `strict` level: other levels would look different
+      // after hydration, and a static SVG would bypass the iframe of sandboxed diagrams
+      if (prerenderOptions && (attributes.securityLevel ?? 'strict') === 'strict') {
+        try {
+          prerendered = await prerenderMermaid(node.value.trim(), getDiagramConfig(attributes), {
+            ...prerenderOptions,
+            themes: {
+              light: attributes.lightTheme ?? prerenderOptions.themes?.light ?? 'default',
+              dark: attributes.darkTheme ?? prerenderOptions.themes?.dark ?? 'dark',
+            },
+          });
+        } catch (error) {
+          // Fall back to client-side rendering for this diagram
+          file.message(`Failed to prerender mermaid diagram: ${error instanceof Error ? error.message : String(error)}`, {
+            place: node.position,
+            source: 'remark-mdx-mermaid',
+            ruleId: 'prerender',
+          });
+        }
+      }
+
+      Object.assign(node, toMDX(node.value, attributes, component, prerendered, search, section));
+    }));
   };
 }
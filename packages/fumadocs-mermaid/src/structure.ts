@@ -0,0 +1,122 @@
+import type { Heading, Paragraph } from 'mdast';
+import { getDiagramBody, getDiagramType } from './parse/diagram';
+import { parseFlowchart } from './parse/flowchart';
+import { cleanLabel } from './parse/label';
+import { parseSequence } from './parse/sequence';
+
+const TITLE = /^\s*(?:title|section|accTitle|accDescr)\s*:?\s*(.+)$/;
+const NOTE = /^\s*note\s+(?:left of|right of|over)\s+[^:]+:\s*(.+)$/i;
+const QUOTED = /"([^"]+)"/g;
+const BRACKETED = /[[({]([^[\](){}]+)[\])}]/g;
+// `class Order {`, `state Idle`
+const DECLARATION = /^\s*(?:class|state)\s+([\w-]+)/;
+// Class, state and ER relationships, e.g. `CUSTOMER ||--o{ ORDER` or `Idle --> Running`
+const RELATIONSHIP = /^\s*([\w-]+)\s*\S*(?:--|\.\.)\S*\s*([\w-]+)/;
+
+/**
+ * Text of diagram types without their own parser: titles, quoted and bracketed labels,
+ * relationship labels after `:` and entity names
+ */
+function getGenericText(lines: string[]): string[] {
+  const text: string[] = [];
+
+  for (const line of lines) {
+    const title = TITLE.exec(line);
+    if (title) {
+      text.push(title[1]);
+      continue;
+    }
+
+    const [statement, label] = line.split(/:(.*)/s);
+    for (const match of statement.matchAll(QUOTED)) text.push(match[1]);
+    for (const match of statement.replace(QUOTED, '').matchAll(BRACKETED)) text.push(match[1]);
+    text.push(...(DECLARATION.exec(statement)?.slice(1) ?? []), ...(RELATIONSHIP.exec(statement)?.slice(1) ?? []));
+    // Gantt and journey tasks, pie slices and relationship labels
+    if (label) text.push(RELATIONSHIP.test(statement) ? label : statement.trim());
+  }
+
+  return text;
+}
+
+/**
+ * Searchable text of a diagram: node and edge labels, actor names, messages and notes.
+ * Duplicates and markup are removed.
+ */
+export function getDiagramText(chart: string): string[] {
+  const body = getDiagramBody(chart);
+  const [, ...lines] = body.split('\n');
+  let text: string[];
+
+  switch (getDiagramType(chart)) {
+    case 'flowchart': {
+      const { nodes, edges } = parseFlowchart(body);
+      text = [...[...nodes.values()].map((node) => node.label), ...edges.map((edge) => edge.label ?? '')];
+      break;
+    }
+    case 'sequence': {
+      const { participants, messages } = parseSequence(body);
+      const notes = lines.map((line) => NOTE.exec(line)?.[1] ?? '');
+      text = [...participants.values(), ...messages.map((message) => message.text), ...notes];
+      break;
+    }
+    default:
+      text = getGenericText(lines);
+  }
+
+  return [...new Set(text.map((item) => cleanLabel(item.replace(/^['"]|['"]$/g, ''))).filter((item) => /[\p{L}\p{N}]/u.test(item)))];
+}
+
+/**
+ * Anchor of a diagram that search results link to, with the text of its search entry
+ */
+export interface StructureAnchor {
+  id: string;
+  title: string;
+}
+
+/**
+ * Nodes that Fumadocs' `remarkStructure` turns into search entries of a `<Mermaid />`
+ * element, placed as its children (which aren't rendered):
+ *
+ * - for diagrams with an anchor, a heading with its id, so the entries link to the
+ *   diagram. It's rendered as `<span>` to stay out of the table of contents.
+ * - the diagram text, as `_string` of an empty paragraph
+ * - after an anchor, an empty heading with the id of `section`, the heading above
+ *   the diagram, so the text after the diagram is indexed under that heading again
+ *
+ * `remarkStructure` can't go back to the page itself, diagrams before the first
+ * heading are indexed without their anchor.
+ */
+export function createStructureNodes(text: string[], anchor?: StructureAnchor, section?: string): (Heading | Paragraph)[] {
+  const nodes: (Heading | Paragraph)[] = [];
+  const anchored = anchor !== undefined && section !== undefined && text.length > 0;
+
+  if (anchored) {
+    nodes.push({
+      type: 'heading',
+      depth: 6,
+      children: [{ type: 'text', value: anchor.title }],
+      data: { hName: 'span', hProperties: { id: anchor.id } } as Heading['data'],
+    });
+  }
+
+  if (text.length > 0) {
+    nodes.push({
+      type: 'paragraph',
+      children: [],
+      data: { _string: [text.join(', ')] } as Paragraph['data'],
+    });
+  }
+
+  if (anchored) {
+    // Without content, search doesn't list the section a second time
+    nodes.push({
+      type: 'heading',
+      depth: 6,
+      children: [],
+      data: { hName: 'span', hProperties: { id: section } } as Heading['data'],
+    });
+  }
+
+  return nodes;
+}
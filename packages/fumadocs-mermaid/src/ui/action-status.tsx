@@ -0,0 +1,42 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Check, CircleAlert, type LucideIcon } from 'lucide-react';
+
+export type ActionStatus = 'idle' | 'done' | 'failed';
+
+/**
+ * Click handler of toolbar actions. Like `useCopyButton`, but failures are caught
+ * and shown instead of becoming unhandled rejections. The status resets after a moment.
+ */
+export function useAction(action: () => Promise<void>): [ActionStatus, () => void] {
+  const [status, setStatus] = useState<ActionStatus>('idle');
+  const actionRef = useRef(action);
+  const timeoutRef = useRef<number>(undefined);
+  actionRef.current = action;
+
+  const onClick = useCallback(() => {
+    window.clearTimeout(timeoutRef.current);
+    const show = (value: ActionStatus) => {
+      setStatus(value);
+      timeoutRef.current = window.setTimeout(() => setStatus('idle'), 1500);
+    };
+
+    actionRef.current().then(() => show('done'), () => show('failed'));
+  }, []);
+
+  useEffect(() => () => window.clearTimeout(timeoutRef.current), []);
+
+  return [status, onClick];
+}
+
+export function ActionIcon({ status, icon: Icon }: { status: ActionStatus; icon: LucideIcon }) {
+  const style = { width: 14, height: 14 };
+  if (status === 'done') return <Check style={style} />;
+  if (status === 'failed') return <CircleAlert style={{ ...style, color: 'var(--color-fd-error, #ef4444)' }} />;
+  return <Icon style={style} />;
+}
+
+export function actionLabel(label: string, status: ActionStatus): string {
+  return status === 'failed' ? `${label} (failed)` : label;
+}
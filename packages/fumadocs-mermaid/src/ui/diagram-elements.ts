@@ -0,0 +1,89 @@
+import { getDiagramBody } from '../parse/diagram';
+import { parseFlowchart } from '../parse/flowchart';
+
+export interface FlowchartEdgeElements {
+  from: string;
+  to: string;
+
+  /**
+   * Paths and labels of every edge between the two nodes
+   */
+  elements: Element[];
+}
+
+export interface FlowchartElements {
+  nodes: Map<string, Element>;
+  edges: FlowchartEdgeElements[];
+}
+
+// Node groups have ids like `flowchart-A-0`
+const NODE_ID = /(?:^|-)flowchart-(.+)-\d+$/;
+
+/**
+ * Elements of the nodes and edges of a rendered flowchart, by their ids in the chart.
+ * Edges are matched by Mermaid's `L_<from>_<to>_<n>` ids, user defined edge ids are skipped.
+ */
+export function getFlowchartElements(svg: Element, chart: string): FlowchartElements {
+  const nodes = new Map<string, Element>();
+  for (const element of svg.querySelectorAll('g.node[id]')) {
+    const id = NODE_ID.exec(element.id)?.[1];
+    if (id && !nodes.has(id)) nodes.set(id, element);
+  }
+
+  // The label's group is the element with the id, its parent is positioned
+  const parts = [...svg.querySelectorAll('[data-edge][data-id], .edgeLabel > [data-id]')].map((element) => ({
+    id: element.getAttribute('data-id') ?? '',
+    element: element.matches('.edgeLabel > *') && element.parentElement ? element.parentElement : element,
+  }));
+
+  const edges = new Map<string, FlowchartEdgeElements>();
+  for (const { from, to } of parseFlowchart(getDiagramBody(chart)).edges) {
+    const key = `${from}\0${to}`;
+    if (edges.has(key)) continue;
+
+    const prefix = `L_${from}_${to}_`;
+    const elements = parts
+      .filter(({ id }) => id.startsWith(prefix) && /^\d+$/.test(id.slice(prefix.length)))
+      .map(({ element }) => element);
+    edges.set(key, { from, to, elements });
+  }
+
+  return { nodes, edges: [...edges.values()] };
+}
+
+/**
+ * Elements of each message of a rendered sequence diagram, in order: its text
+ * lines, arrow and sequence number. Mermaid draws them one after another at the
+ * top level of the SVG, after the actors.
+ */
+export function getSequenceMessages(svg: Element): Element[][] {
+  const messages: Element[][] = [];
+  let current: Element[] | undefined;
+  let hasLine = false;
+
+  for (const element of svg.children) {
+    const { classList } = element;
+
+    if (classList.contains('messageText')) {
+      // Text after an arrow starts the next message
+      if (!current || hasLine) {
+        current = [];
+        messages.push(current);
+        hasLine = false;
+      }
+      current.push(element);
+    } else if (!current) {
+      continue;
+    } else if (classList.contains('messageLine0') || classList.contains('messageLine1')) {
+      current.push(element);
+      hasLine = true;
+    } else if (hasLine && (classList.contains('sequenceNumber') || element.localName === 'line')) {
+      // The sequence number and the line carrying its circle marker
+      current.push(element);
+    } else {
+      break;
+    }
+  }
+
+  return messages;
+}
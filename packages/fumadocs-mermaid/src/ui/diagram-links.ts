@@ -0,0 +1,81 @@
+'use client';
+
+import { type RefObject, useEffect } from 'react';
+import { type Router, useRouter } from 'fumadocs-core/framework';
+
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink';
+
+/**
+ * Marks external links; the arrow is shown after HTML labels of flowchart nodes
+ */
+export const EXTERNAL_LINK_CSS = '[data-mermaid-external-link] .nodeLabel::after{content:"\\2197";margin-left:0.25em}';
+
+function getHref(anchor: Element): string | null {
+  return anchor.getAttribute('href') ?? anchor.getAttributeNS(XLINK_NAMESPACE, 'href');
+}
+
+function isExternal(href: string): boolean {
+  try {
+    return new URL(href, window.location.href).origin !== window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Router of Fumadocs' `FrameworkProvider`, `undefined` outside of it
+ */
+function useOptionalRouter(): Router | undefined {
+  try {
+    return useRouter();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Make links of `click` directives behave like page links:
+ * internal links go through the client router (e.g. Next.js), external links
+ * open in a new tab and are marked for sighted and screen reader users.
+ *
+ * Modifier clicks and links with a `target` are left to the browser.
+ */
+export function useDiagramLinks(containerRef: RefObject<HTMLElement | null>, svg: string) {
+  const router = useOptionalRouter();
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    for (const anchor of container.querySelectorAll('a')) {
+      const href = getHref(anchor);
+      if (!href || !isExternal(href)) continue;
+
+      anchor.setAttribute('data-mermaid-external-link', '');
+      anchor.setAttribute('target', '_blank');
+      anchor.setAttribute('rel', 'noreferrer noopener');
+      if (!anchor.hasAttribute('aria-label')) {
+        anchor.setAttribute('aria-label', `${anchor.textContent?.trim() || href} (opens in a new tab)`);
+      }
+    }
+
+    if (!router) return;
+
+    const onClick = (event: MouseEvent) => {
+      if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+
+      const anchor = (event.target as Element | null)?.closest('a');
+      if (!anchor || !container.contains(anchor)) return;
+
+      const href = getHref(anchor);
+      const target = anchor.getAttribute('target');
+      if (!href || href.startsWith('#') || (target && target !== '_self') || isExternal(href)) return;
+
+      event.preventDefault();
+      router.push(href);
+    };
+
+    container.addEventListener('click', onClick);
+    return () => container.removeEventListener('click', onClick);
+  }, [containerRef, svg, router]);
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { buttonVariants } from 'fumadocs-ui/components/ui/button';
+import { Copy, Download, ImageDown } from 'lucide-react';
+import { ActionIcon, actionLabel, useAction } from './action-status';
+
+export interface MermaidExportOptions {
+  /**
+   * Pixel ratio of exported PNGs
+   * @defaultValue 2
+   */
+  scale?: number;
+
+  /**
+   * Background of exported images: `'theme'` uses the page background,
+   * `'transparent'` leaves it empty, anything else is used as a CSS color
+   * @defaultValue 'theme'
+   */
+  background?: string;
+}
+
+interface ExportSettings {
+  scale: number;
+  background: string;
+  filename: string;
+}
+
+/**
+ * File name (without extension) for exports of a diagram
+ */
+export function getExportFilename(filename: string | undefined, title: string | undefined): string {
+  if (filename) return filename.replace(/\.(svg|png)$/i, '');
+
+  const slug = title
+    ?.toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-');
+  return slug || 'diagram';
+}
+
+function getSvgSize(svgElement: SVGSVGElement): { width: number; height: number } {
+  const viewBox = svgElement.getAttribute('viewBox');
+  if (viewBox) {
+    const parts = viewBox.split(/\s+|,/).map(Number);
+    if (parts.length === 4) return { width: parts[2], height: parts[3] };
+  }
+
+  return {
+    width: svgElement.width.baseVal.value || 800,
+    height: svgElement.height.baseVal.value || 600,
+  };
+}
+
+/**
+ * First non-transparent background color of the element or its ancestors
+ */
+function getThemeBackground(element: Element): string {
+  for (let el: Element | null = element; el; el = el.parentElement) {
+    const color = getComputedStyle(el).backgroundColor;
+    if (color && color !== 'transparent' && color !== 'rgba(0, 0, 0, 0)') return color;
+  }
+
+  return document.documentElement.classList.contains('dark') ? '#000' : '#fff';
+}
+
+function resolveBackground(background: string, element: Element): string | undefined {
+  if (background === 'transparent') return undefined;
+  if (background === 'theme') return getThemeBackground(element);
+  return background;
+}
+
+/**
+ * Replace `var(--x)` with the values computed for the diagram, as the
+ * variables don't exist outside the page
+ */
+function resolveCssVariables(css: string, style: CSSStyleDeclaration): string {
+  return css.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/g, (match, name: string, fallback?: string) => {
+    return style.getPropertyValue(name).trim() || fallback?.trim() || match;
+  });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read font'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+const fontCache = new Map<string, Promise<string | undefined>>();
+
+function fetchAsDataUrl(url: string): Promise<string | undefined> {
+  let cached = fontCache.get(url);
+  if (!cached) {
+    cached = fetch(url)
+      .then((res) => (res.ok ? res.blob() : undefined))
+      .then((blob) => (blob ? blobToDataUrl(blob) : undefined))
+      .catch(() => undefined);
+    fontCache.set(url, cached);
+  }
+  return cached;
+}
+
+/**
+ * `@font-face` rules of the page for the given font families, with their
+ * files embedded as data URLs
+ */
+async function getFontFaceCss(fontFamily: string): Promise<string> {
+  const families = new Set(fontFamily.split(',').map((name) => name.trim().replace(/^["']|["']$/g, '')));
+  const rules: CSSFontFaceRule[] = [];
+
+  for (const sheet of Array.from(document.styleSheets)) {
+    let cssRules: CSSRuleList;
+    try {
+      cssRules = sheet.cssRules;
+    } catch {
+      // Cross-origin stylesheets can't be read
+      continue;
+    }
+
+    for (const rule of Array.from(cssRules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+      const family = rule.style.getPropertyValue('font-family').trim().replace(/^["']|["']$/g, '');
+      if (families.has(family)) rules.push(rule);
+    }
+  }
+
+  const embedded = await Promise.all(rules.map(async (rule) => {
+    let css = rule.cssText;
+    const base = rule.parentStyleSheet?.href ?? document.baseURI;
+    const urls = [...css.matchAll(/url\(\s*["']?([^"')]+)["']?\s*\)/g)].map((match) => match[1]);
+
+    for (const url of new Set(urls)) {
+      if (url.startsWith('data:')) continue;
+      const dataUrl = await fetchAsDataUrl(new URL(url, base).href);
+      if (dataUrl) css = css.replaceAll(url, dataUrl);
+    }
+    return css;
+  }));
+
+  return embedded.join('\n');
+}
+
+/**
+ * Serialize a rendered diagram into a standalone SVG document.
+ *
+ * CSS variables and the inherited font are resolved, and the fonts are
+ * embedded, so the file looks the same outside the site.
+ */
+async function serializeSvg(svgElement: SVGSVGElement, background: string): Promise<string> {
+  const clone = svgElement.cloneNode(true) as SVGSVGElement;
+  const style = getComputedStyle(svgElement);
+  const fontFamily = style.fontFamily;
+  const { width, height } = getSvgSize(svgElement);
+
+  // Mermaid sizes the SVG to its container
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.style.removeProperty('max-width');
+  const fill = resolveBackground(background, svgElement);
+  if (fill) clone.style.backgroundColor = fill;
+
+  for (const styleElement of Array.from(clone.querySelectorAll('style'))) {
+    styleElement.textContent = resolveCssVariables(styleElement.textContent ?? '', style)
+      .replace(/font-family:\s*inherit/g, `font-family:${fontFamily}`);
+  }
+
+  const fontCss = await getFontFaceCss(fontFamily);
+  if (fontCss) {
+    const fontStyle = document.createElementNS('http://www.w3.org/2000/svg', 'style');
+    fontStyle.textContent = fontCss;
+    clone.insertBefore(fontStyle, clone.firstChild);
+  }
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+async function svgToPngBlob(svgElement: SVGSVGElement, { scale, background }: Omit<ExportSettings, 'filename'>): Promise<Blob> {
+  const svgData = await serializeSvg(svgElement, background);
+  const { width, height } = getSvgSize(svgElement);
+
+  return new Promise((resolve, reject) => {
+    const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
+    const url = URL.createObjectURL(svgBlob);
+
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error('Failed to create PNG blob'));
+      }, 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load SVG image'));
+    };
+    img.src = url;
+  });
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function ExportButtons({ containerRef, scale, background, filename }: ExportSettings & { containerRef: React.RefObject<HTMLDivElement | null> }) {
+  const [copyStatus, onCopy] = useAction(async () => {
+    const svgEl = containerRef.current?.querySelector('svg');
+    if (!svgEl) return;
+    const blob = await svgToPngBlob(svgEl, { scale, background });
+    await navigator.clipboard.write([
+      new ClipboardItem({ 'image/png': blob }),
+    ]);
+  });
+
+  const [pngStatus, onDownloadPng] = useAction(async () => {
+    const svgEl = containerRef.current?.querySelector('svg');
+    if (!svgEl) return;
+    downloadBlob(await svgToPngBlob(svgEl, { scale, background }), `${filename}.png`);
+  });
+
+  const [svgStatus, onDownloadSvg] = useAction(async () => {
+    const svgEl = containerRef.current?.querySelector('svg');
+    if (!svgEl) return;
+    const svgData = await serializeSvg(svgEl, background);
+    downloadBlob(new Blob([svgData], { type: 'image/svg+xml' }), `${filename}.svg`);
+  });
+
+  return (
+    <>
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={onCopy}
+        aria-label={actionLabel('Copy as PNG', copyStatus)}
+      >
+        <ActionIcon status={copyStatus} icon={Copy} />
+      </button>
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={onDownloadPng}
+        aria-label={actionLabel('Download as PNG', pngStatus)}
+      >
+        <ActionIcon status={pngStatus} icon={ImageDown} />
+      </button>
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={onDownloadSvg}
+        aria-label={actionLabel('Download as SVG', svgStatus)}
+      >
+        <ActionIcon status={svgStatus} icon={Download} />
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import type { ReactNode } from 'react';
+
+interface DiagramFigureProps {
+  id?: string;
+  label?: string;
+  title?: string;
+  caption?: string;
+  children: ReactNode;
+}
+
+/**
+ * Wraps a diagram in a `<figure>` with its number, title and caption,
+ * or returns it as-is when it has none of them.
+ */
+export function DiagramFigure({ id, label, title, caption, children }: DiagramFigureProps) {
+  if (!id && !label && !title && !caption) return children;
+
+  const heading = label && title ? `${label}: ${title}` : label ?? title;
+
+  return (
+    <figure
+      id={id}
+      // Leave room for the sticky navbar when jumping to the anchor, like Fumadocs headings
+      style={{ margin: '1.5rem 0', scrollMarginTop: '7rem' }}
+    >
+      {children}
+      {(heading || caption) && (
+        <figcaption
+          style={{
+            marginTop: '0.5rem',
+            textAlign: 'center',
+            fontSize: '0.875rem',
+            color: 'var(--color-fd-muted-foreground, #71717a)',
+          }}
+        >
+          {heading && <span style={{ fontWeight: 500, color: 'var(--color-fd-foreground, inherit)' }}>{heading}</span>}
+          {heading && caption && ' — '}
+          {caption}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
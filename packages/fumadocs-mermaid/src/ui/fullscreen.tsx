@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { buttonVariants } from 'fumadocs-ui/components/ui/button';
+import { Maximize2, X } from 'lucide-react';
+import { type ZoomActions, ZoomButtons, ZoomableViewport } from './zoomable-viewport';
+import { rewriteSvgIds } from './render-cache';
+import { useDiagramLinks } from './diagram-links';
+
+export function FullscreenButton({ onOpen, buttonRef }: { onOpen: () => void; buttonRef: React.RefObject<HTMLButtonElement | null> }) {
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+      onClick={onOpen}
+      aria-label="Open fullscreen"
+    >
+      <Maximize2 style={{ width: 14, height: 14 }} />
+    </button>
+  );
+}
+
+interface FullscreenDialogProps {
+  /**
+   * The already rendered SVG of the diagram
+   */
+  svg: string;
+
+  /**
+   * DOM id of the diagram's SVG, rewritten so the copy in the dialog gets its own ids
+   */
+  svgId: string;
+
+  onClose: () => void;
+
+  /**
+   * Element focused again after closing, usually the fullscreen button
+   */
+  returnFocusRef: React.RefObject<HTMLElement | null>;
+
+  /**
+   * Show the minimap overlay
+   */
+  minimap?: boolean;
+}
+
+/**
+ * Shows a diagram in a modal dialog that fills the viewport, with pan and zoom.
+ *
+ * Uses a native `<dialog>`, so the rest of the page is inert while it is open
+ * and Escape closes it.
+ */
+export function FullscreenDialog({ svg, svgId, onClose, returnFocusRef, minimap = false }: FullscreenDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const zoomActionsRef = useRef<ZoomActions | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const fullscreenSvg = rewriteSvgIds(svg, svgId, `${svgId}-fullscreen`);
+
+  useDiagramLinks(contentRef, fullscreenSvg);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+
+    dialog.showModal();
+    // Prevent the page behind from scrolling
+    const overflow = document.documentElement.style.overflow;
+    document.documentElement.style.overflow = 'hidden';
+
+    const returnFocus = returnFocusRef.current;
+    return () => {
+      dialog.close();
+      document.documentElement.style.overflow = overflow;
+      returnFocus?.focus();
+    };
+  }, [returnFocusRef]);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      aria-label="Diagram"
+      onCancel={(e) => {
+        // Escape: let React unmount the dialog instead of closing it natively
+        e.preventDefault();
+        onClose();
+      }}
+      style={{
+        width: '100vw',
+        height: '100dvh',
+        maxWidth: 'none',
+        maxHeight: 'none',
+        margin: 0,
+        padding: 0,
+        border: 'none',
+        background: 'var(--color-fd-background, #fff)',
+        color: 'inherit',
+      }}
+    >
+      <ZoomableViewport
+        actionsRef={zoomActionsRef}
+        style={{ width: '100%', height: '100%', border: 'none', borderRadius: 0 }}
+        fitOnMount
+        minimap={minimap}
+      >
+        <div ref={contentRef} dangerouslySetInnerHTML={{ __html: fullscreenSvg }} />
+      </ZoomableViewport>
+      <div
+        style={{
+          position: 'absolute',
+          top: '12px',
+          right: '12px',
+          display: 'flex',
+          gap: '4px',
+          zIndex: 1,
+        }}
+      >
+        <ZoomButtons actionsRef={zoomActionsRef} />
+        <button
+          type="button"
+          className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+          onClick={onClose}
+          aria-label="Close fullscreen"
+          autoFocus
+        >
+          <X style={{ width: 14, height: 14 }} />
+        </button>
+      </div>
+    </dialog>
+  );
+}
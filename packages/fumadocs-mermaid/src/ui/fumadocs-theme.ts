@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Theme name that renders with Mermaid's `base` theme, using `themeVariables`
+ * taken from the page's `--color-fd-*` CSS variables.
+ */
+export const FUMADOCS_THEME = 'fumadocs';
+
+type ThemeVariables = Record<string, string | boolean>;
+
+/**
+ * Mermaid theme variables and the Fumadocs color they are taken from
+ */
+const VARIABLE_MAP: Record<string, string> = {
+  background: 'background',
+  textColor: 'foreground',
+  mainBkg: 'card',
+  primaryColor: 'card',
+  primaryTextColor: 'card-foreground',
+  primaryBorderColor: 'ring',
+  nodeBorder: 'ring',
+  secondaryColor: 'secondary',
+  secondaryTextColor: 'secondary-foreground',
+  secondaryBorderColor: 'ring',
+  tertiaryColor: 'muted',
+  tertiaryTextColor: 'foreground',
+  tertiaryBorderColor: 'border',
+  lineColor: 'muted-foreground',
+  clusterBkg: 'muted',
+  clusterBorder: 'border',
+  titleColor: 'foreground',
+  edgeLabelBackground: 'background',
+  noteBkgColor: 'popover',
+  noteTextColor: 'popover-foreground',
+  noteBorderColor: 'border',
+  actorBkg: 'card',
+  actorBorder: 'ring',
+  actorTextColor: 'card-foreground',
+  actorLineColor: 'muted-foreground',
+  signalColor: 'foreground',
+  signalTextColor: 'foreground',
+  labelBoxBkgColor: 'card',
+  labelBoxBorderColor: 'ring',
+  labelTextColor: 'card-foreground',
+  loopTextColor: 'foreground',
+  activationBkgColor: 'secondary',
+  activationBorderColor: 'ring',
+};
+
+let canvasContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Resolve any CSS color (hsla, oklch, color-mix, ...) to an opaque hex color
+ * that Mermaid's color utilities can work with. Translucent colors are
+ * composited over the page background.
+ */
+function toHex(color: string, background: string): string {
+  canvasContext ??= document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+  const ctx = canvasContext;
+  if (!ctx) return color;
+
+  ctx.clearRect(0, 0, 1, 1);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, 1, 1);
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, 1, 1);
+
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  return `#${[r, g, b].map((v) => v.toString(16).padStart(2, '0')).join('')}`;
+}
+
+const resolved = new Map<string, ThemeVariables>();
+
+function readThemeVariables(): ThemeVariables {
+  const style = getComputedStyle(document.documentElement);
+  const colors: Record<string, string> = {};
+  for (const name of new Set(Object.values(VARIABLE_MAP))) {
+    colors[name] = style.getPropertyValue(`--color-fd-${name}`).trim();
+  }
+
+  const darkMode = document.documentElement.classList.contains('dark');
+  const cacheKey = JSON.stringify([colors, darkMode]);
+  const cached = resolved.get(cacheKey);
+  if (cached) return cached;
+
+  const background = toHex(colors.background || (darkMode ? '#000' : '#fff'), darkMode ? '#000' : '#fff');
+  const variables: ThemeVariables = { darkMode };
+  for (const [variable, name] of Object.entries(VARIABLE_MAP)) {
+    if (colors[name]) variables[variable] = toHex(colors[name], background);
+  }
+
+  resolved.set(cacheKey, variables);
+  return variables;
+}
+
+/**
+ * Mermaid `themeVariables` from the current Fumadocs colors, or `undefined` when disabled.
+ *
+ * Updates when the `<html>` element changes class or style (e.g. dark mode),
+ * which happens after next-themes' `resolvedTheme` already changed.
+ */
+export function useFumadocsThemeVariables(enabled: boolean): ThemeVariables | undefined {
+  const [variables, setVariables] = useState<ThemeVariables | undefined>(() => (enabled ? readThemeVariables() : undefined));
+
+  useEffect(() => {
+    if (!enabled) {
+      setVariables(undefined);
+      return;
+    }
+
+    setVariables(readThemeVariables());
+    const observer = new MutationObserver(() => setVariables(readThemeVariables()));
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['class', 'style', 'data-theme'] });
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return variables;
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { type RefObject, useLayoutEffect } from 'react';
+import { getDiagramType } from '../parse/diagram';
+import { type FlowchartEdgeElements, getFlowchartElements } from './diagram-elements';
+
+/**
+ * While a diagram is highlighting, nodes and edges that aren't highlighted are dimmed
+ */
+export const HIGHLIGHT_CSS = '[data-mermaid-highlighting] :is(.node,.cluster,[data-edge],.edgeLabel):not([data-mermaid-highlighted]){opacity:0.25}[data-mermaid-highlighting] .node:focus-visible{outline:2px solid var(--color-fd-primary, #2563eb);outline-offset:2px}@media (prefers-reduced-motion:no-preference){[data-mermaid-highlighting] :is(.node,.cluster,[data-edge],.edgeLabel){transition:opacity 150ms}}';
+
+/**
+ * Diagram types whose nodes can be highlighted
+ */
+export function supportsHighlight(chart: string): boolean {
+  return getDiagramType(chart) === 'flowchart';
+}
+
+/**
+ * Node ids of the `highlight` attribute, e.g. `A,B,C`
+ */
+function parseHighlight(highlight: string | undefined): Set<string> {
+  return new Set((highlight ?? '').split(',').map((id) => id.trim()).filter(Boolean));
+}
+
+/**
+ * Emphasize nodes and edges of a rendered flowchart and dim everything else:
+ *
+ * - the nodes listed in `highlight` and the edges between them
+ * - with `connections`, the edges and neighbors of the node under the pointer or
+ *   with keyboard focus, until it is left. Nodes become focusable for this.
+ *
+ * Only the SVG is changed, not the chart, so the diagram isn't rendered again.
+ */
+export function useDiagramHighlight(containerRef: RefObject<HTMLElement | null>, svg: string, chart: string, highlight: string | undefined, connections: boolean) {
+  useLayoutEffect(() => {
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!svgElement || (!highlight && !connections)) return;
+
+    const { nodes, edges } = getFlowchartElements(svgElement, chart);
+    const nodeIds = new Map([...nodes].map(([id, element]) => [element, id]));
+
+    const clear = () => {
+      for (const element of svgElement.querySelectorAll('[data-mermaid-highlighted]')) element.removeAttribute('data-mermaid-highlighted');
+      svgElement.removeAttribute('data-mermaid-highlighting');
+    };
+
+    const apply = (ids: Set<string>, highlightedEdges: FlowchartEdgeElements[]) => {
+      clear();
+      if (ids.size > 0) svgElement.setAttribute('data-mermaid-highlighting', '');
+
+      for (const id of ids) nodes.get(id)?.setAttribute('data-mermaid-highlighted', '');
+      for (const edge of highlightedEdges) {
+        for (const element of edge.elements) element.setAttribute('data-mermaid-highlighted', '');
+      }
+    };
+
+    const listed = parseHighlight(highlight);
+    const reset = () => apply(listed, edges.filter((edge) => listed.has(edge.from) && listed.has(edge.to)));
+    reset();
+
+    if (!connections) return clear;
+
+    let active: string | undefined;
+    const activate = (target: EventTarget | null) => {
+      const node = target instanceof Element ? target.closest('g.node') : null;
+      const id = node ? nodeIds.get(node) : undefined;
+      if (id === active) return;
+
+      active = id;
+      if (id === undefined) {
+        reset();
+        return;
+      }
+
+      const connected = edges.filter((edge) => edge.from === id || edge.to === id);
+      apply(new Set([id, ...connected.flatMap((edge) => [edge.from, edge.to])]), connected);
+    };
+
+    // Links are focusable already
+    const focusable = [...nodes.values()].filter((node) => !node.closest('a'));
+    for (const node of focusable) node.setAttribute('tabindex', '0');
+
+    const onOver = (event: Event) => activate(event.target);
+    const onLeave = () => activate(null);
+    const onFocusOut = (event: FocusEvent) => activate(event.relatedTarget);
+
+    svgElement.addEventListener('pointerover', onOver);
+    svgElement.addEventListener('pointerleave', onLeave);
+    svgElement.addEventListener('focusin', onOver);
+    svgElement.addEventListener('focusout', onFocusOut);
+    return () => {
+      svgElement.removeEventListener('pointerover', onOver);
+      svgElement.removeEventListener('pointerleave', onLeave);
+      svgElement.removeEventListener('focusin', onOver);
+      svgElement.removeEventListener('focusout', onFocusOut);
+      for (const node of focusable) node.removeAttribute('tabindex');
+      clear();
+    };
+  }, [containerRef, svg, chart, highlight, connections]);
+}
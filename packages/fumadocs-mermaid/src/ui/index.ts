@@ -7,3 +7,7 @@
  */
 
 export { Mermaid, type MermaidProps } from './mermaid';
+export { MermaidProvider, type MermaidProviderProps, type MermaidDefaults } from './provider';
+export { configureMermaidCache, type MermaidCacheOptions, type MermaidCacheStorage } from './render-cache';
+export type { MermaidExportOptions } from './export';
+export type { MermaidSecurityLevel } from './sanitize';
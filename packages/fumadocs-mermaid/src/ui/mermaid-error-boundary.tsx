@@ -0,0 +1,116 @@
+'use client';
+
+import { Component, type ReactNode } from 'react';
+import { buttonVariants } from 'fumadocs-ui/components/ui/button';
+import { RefreshCw, TriangleAlert } from 'lucide-react';
+import { parseMermaidError } from '../mermaid-error';
+
+interface MermaidErrorBoundaryProps {
+  chart: string;
+  children: ReactNode;
+}
+
+interface MermaidErrorBoundaryState {
+  hasError: boolean;
+  error: unknown;
+}
+
+/**
+ * Catches parse and render failures of a single diagram, so an invalid chart
+ * shows an inline error panel instead of taking down the whole page.
+ */
+export class MermaidErrorBoundary extends Component<MermaidErrorBoundaryProps, MermaidErrorBoundaryState> {
+  state: MermaidErrorBoundaryState = { hasError: false, error: null };
+
+  static getDerivedStateFromError(error: unknown): MermaidErrorBoundaryState {
+    return { hasError: true, error };
+  }
+
+  componentDidUpdate(prevProps: MermaidErrorBoundaryProps) {
+    // Try again when the chart is edited (e.g. during development)
+    if (this.state.hasError && prevProps.chart !== this.props.chart) {
+      this.setState({ hasError: false, error: null });
+    }
+  }
+
+  private retry = () => {
+    this.setState({ hasError: false, error: null });
+  };
+
+  render() {
+    if (this.state.hasError) {
+      return <MermaidErrorPanel chart={this.props.chart} error={this.state.error} onRetry={this.retry} />;
+    }
+
+    return this.props.children;
+  }
+}
+
+function MermaidErrorPanel({ chart, error, onRetry }: { chart: string; error: unknown; onRetry: () => void }) {
+  const { message, line } = parseMermaidError(error, chart);
+  const lines = chart.replaceAll('\\n', '\n').split('\n');
+
+  return (
+    <div
+      role="alert"
+      style={{
+        margin: '1.5rem 0 0',
+        borderRadius: '8px',
+        border: '1px solid var(--color-fd-error, #ef4444)',
+        fontSize: '0.875rem',
+        overflow: 'hidden',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '8px 12px',
+          color: 'var(--color-fd-error, #ef4444)',
+          fontWeight: 500,
+        }}
+      >
+        <TriangleAlert style={{ width: 16, height: 16, flexShrink: 0 }} />
+        <span style={{ flex: 1 }}>
+          {line !== undefined ? `Failed to render diagram (line ${line})` : 'Failed to render diagram'}
+        </span>
+        <button
+          type="button"
+          className={buttonVariants({ size: 'icon-sm', color: 'ghost' })}
+          onClick={onRetry}
+          aria-label="Retry"
+        >
+          <RefreshCw style={{ width: 14, height: 14 }} />
+        </button>
+      </div>
+      <pre style={{ margin: 0, padding: '0 12px 8px', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+        {message}
+      </pre>
+      <pre
+        style={{
+          margin: 0,
+          padding: '8px 0',
+          overflowX: 'auto',
+          borderTop: '1px solid var(--color-fd-border, #e5e7eb)',
+          background: 'var(--color-fd-muted, #f4f4f5)',
+        }}
+      >
+        <code>
+          {lines.map((text, i) => (
+            <div
+              key={i}
+              style={{
+                padding: '0 12px',
+                background: i + 1 === line ? 'color-mix(in srgb, var(--color-fd-error, #ef4444) 15%, transparent)' : undefined,
+              }}
+            >
+              <span style={{ display: 'inline-block', width: '2.5em', opacity: 0.5, userSelect: 'none' }}>{i + 1}</span>
+              {text}
+            </div>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
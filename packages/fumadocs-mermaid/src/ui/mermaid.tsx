@@ -1,10 +1,23 @@
 'use client';
 
-import { type ReactNode, type RefCallback, use, useCallback, useEffect, useId, useRef, useState } from 'react';
+import { type RefCallback, Suspense, use, useCallback, useDeferredValue, useEffect, useId, useMemo, useRef, useState } from 'react';
 import { useTheme } from 'next-themes';
-import { buttonVariants } from 'fumadocs-ui/components/ui/button';
-import { useCopyButton } from 'fumadocs-ui/utils/use-copy-button';
-import { Copy, Check, Download, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import { buildMermaidConfig, mergeMermaidConfig, withInitDirective, type MermaidConfig } from '../mermaid-config';
+import { MermaidErrorBoundary } from './mermaid-error-boundary';
+import { getFinishedRender, hashKey, loadMermaid, renderCached, rewriteSvgIds, runExclusive } from './render-cache';
+import { useMermaidDefaults } from './provider';
+import { FUMADOCS_THEME, useFumadocsThemeVariables } from './fumadocs-theme';
+import { type ZoomActions, ZoomButtons, ZoomableViewport } from './zoomable-viewport';
+import { FullscreenButton, FullscreenDialog } from './fullscreen';
+import { ExportButtons, getExportFilename } from './export';
+import { SourceActions } from './source-actions';
+import { SourceTabs } from './source-tabs';
+import { DiagramFigure } from './figure';
+import { describeDiagram, type DiagramDescription } from './text-alternative';
+import { EXTERNAL_LINK_CSS, useDiagramLinks } from './diagram-links';
+import { STEPS_CSS, StepControls, supportsSteps, useDiagramSteps } from './steps';
+import { HIGHLIGHT_CSS, supportsHighlight, useDiagramHighlight } from './highlight';
+import { type MermaidSecurityLevel, sanitizeSvg, toSecurityLevel } from './sanitize';
 
 export interface MermaidProps {
   /**
@@ -14,9 +27,20 @@ export interface MermaidProps {
 
   /**
    * Optional theme override. If not provided, will use the theme from next-themes context.
-   * @defaultValue 'default' for light, 'dark' for dark mode
+   * `'fumadocs'` uses the `base` theme with colors from the page's Fumadocs CSS variables.
+   * @defaultValue 'default' for light, 'dark' for dark mode, or the themes of `MermaidProvider`
    */
-  theme?: 'default' | 'dark' | 'neutral' | 'forest';
+  theme?: 'default' | 'dark' | 'neutral' | 'forest' | 'base' | 'fumadocs';
+
+  /**
+   * Theme used in light mode, unless `theme` is set
+   */
+  lightTheme?: string;
+
+  /**
+   * Theme used in dark mode, unless `theme` is set
+   */
+  darkTheme?: string;
 
   /**
    * Additional CSS for the diagram container
@@ -30,444 +54,419 @@ export interface MermaidProps {
   config?: string;
 
   /**
-   * When true, shows a hover overlay with copy (PNG) and download (SVG) buttons.
+   * When true, shows a hover overlay with copy (PNG) and download (PNG, SVG) buttons.
+   * Set to `'false'` to disable it when enabled by `MermaidProvider`.
    */
   exportable?: string;
 
+  /**
+   * Pixel ratio of exported PNGs
+   * @defaultValue '2', or the `exportOptions` of `MermaidProvider`
+   */
+  exportScale?: string;
+
+  /**
+   * Background of exported images: `'theme'`, `'transparent'` or a CSS color
+   * @defaultValue 'theme', or the `exportOptions` of `MermaidProvider`
+   */
+  exportBackground?: string;
+
+  /**
+   * File name of downloads, without extension
+   * @defaultValue derived from `title`, or 'diagram'
+   */
+  filename?: string;
+
+  /**
+   * Title of the diagram, shown in its figure caption and used for the file name of downloads
+   */
+  title?: string;
+
+  /**
+   * Caption shown below the diagram
+   */
+  caption?: string;
+
+  /**
+   * Anchor id of the figure
+   */
+  id?: string;
+
+  /**
+   * Figure number shown before the title, e.g. "Figure 3"
+   */
+  label?: string;
+
+  /**
+   * Accessible name of the diagram
+   * @defaultValue `title`
+   */
+  accTitle?: string;
+
+  /**
+   * Accessible description of the diagram
+   */
+  accDescr?: string;
+
+  /**
+   * When true, adds a screen reader only text version of the diagram,
+   * e.g. the connections of a flowchart or the messages of a sequence diagram.
+   * Set to `'false'` to disable it when enabled by `MermaidProvider`.
+   */
+  textAlternative?: string;
+
+  /**
+   * When true, adds buttons that copy the chart source and open the diagram in the Mermaid Live Editor.
+   * Set to `'false'` to disable it when enabled by `MermaidProvider`.
+   */
+  forkable?: string;
+
+  /**
+   * When true, adds "Diagram" and "Source" tabs above the diagram to switch to its highlighted source.
+   * Set to `'false'` to disable it when enabled by `MermaidProvider`.
+   */
+  showSource?: string;
+
+  /**
+   * Mermaid's security level: `'strict'`, `'antiscript'`, `'loose'` (HTML labels and
+   * `click` callbacks) or `'sandbox'` (rendered in a sandboxed iframe)
+   * @defaultValue 'strict', or the `securityLevel` of `MermaidProvider`
+   */
+  securityLevel?: string;
+
   /**
    * When true, enables pan and zoom on the rendered diagram.
+   * Set to `'false'` to disable it when enabled by `MermaidProvider`.
    */
   zoomable?: string;
-}
 
-interface MermaidConfig {
-  theme?: string;
-  themeCSS?: string;
-  packet?: {
-    rowHeight?: number;
-    bitsPerRow?: number;
-    showBits?: boolean;
-  };
-  flowchart?: {
-    nodeSpacing?: number;
-    rankSpacing?: number;
-    curve?: string;
-  };
-  sequence?: {
-    mirrorActors?: boolean;
-    messageAlign?: string;
-  };
-  [key: string]: unknown;
-}
+  /**
+   * When true, adds a button that opens the diagram in a fullscreen dialog with pan and zoom.
+   * Set to `'false'` to disable it when enabled by `MermaidProvider`.
+   */
+  fullscreen?: string;
 
-/**
- * Build Mermaid config from flat attributes parsed from code block meta.
- * Maps flat attributes to Mermaid's nested configuration structure.
- */
-function buildMermaidConfig(configStr: string | undefined, themeOverride: string | undefined): MermaidConfig {
-  if (!configStr) {
-    return themeOverride ? { theme: themeOverride } : {};
-  }
+  /**
+   * When true, zoomable and fullscreen diagrams show a minimap of the whole
+   * diagram with the visible area highlighted.
+   */
+  minimap?: string;
 
-  let parsed: Record<string, string | null>;
-  try {
-    parsed = JSON.parse(configStr);
-  } catch {
-    return themeOverride ? { theme: themeOverride } : {};
-  }
+  /**
+   * Reveals the diagram step by step with previous/next buttons and a slider: one message
+   * at a time for sequence diagrams, node groups for flowcharts. Groups are listed like
+   * `'A,B;C;D,E'`, marked with `%% step` comments in the chart when set to `'true'`,
+   * or one node at a time without comments.
+   */
+  steps?: string;
 
-  // Check if it's already a nested config (has 'config' key)
-  if (parsed.config) {
-    try {
-      const nestedConfig = JSON.parse(parsed.config as string);
-      // Merge with any flat attributes
-      const result: MermaidConfig = { ...nestedConfig };
-      if (parsed.theme) result.theme = parsed.theme as string;
-      if (themeOverride) result.theme = themeOverride;
-      return result;
-    } catch {
-      // Fall through to flat attribute handling
-    }
-  }
+  /**
+   * Flowchart nodes to emphasize, e.g. `'A,B,C'`. The edges between them are emphasized
+   * too, everything else is dimmed.
+   */
+  highlight?: string;
 
-  const config: MermaidConfig = {};
+  /**
+   * When true, hovering or focusing a flowchart node highlights its edges and neighbors.
+   * Set to `'false'` to disable it when enabled by `MermaidProvider`.
+   */
+  highlightConnections?: string;
 
-  // Theme: code block attribute takes priority, then fall back to system theme
-  if (parsed.theme) {
-    config.theme = parsed.theme;
-  } else if (themeOverride) {
-    config.theme = themeOverride;
-  }
+  /**
+   * When true, renders as soon as the page mounts instead of when the diagram
+   * comes near the viewport.
+   */
+  eager?: string;
+
+  /**
+   * Margin around the viewport within which lazy diagrams start rendering,
+   * in CSS margin syntax.
+   * @defaultValue '200px'
+   */
+  rootMargin?: string;
 
-  // Packet diagram options
-  const packetOptions: MermaidConfig['packet'] = {};
-  if (parsed.rowHeight) packetOptions.rowHeight = parseInt(parsed.rowHeight, 10);
-  if (parsed.bitsPerRow) packetOptions.bitsPerRow = parseInt(parsed.bitsPerRow, 10);
-  if (parsed.showBits) packetOptions.showBits = parsed.showBits === 'true';
-  if (Object.keys(packetOptions).length > 0) config.packet = packetOptions;
-
-  // Flowchart options
-  const flowchartOptions: MermaidConfig['flowchart'] = {};
-  if (parsed.nodeSpacing) flowchartOptions.nodeSpacing = parseInt(parsed.nodeSpacing, 10);
-  if (parsed.rankSpacing) flowchartOptions.rankSpacing = parseInt(parsed.rankSpacing, 10);
-  if (parsed.curve) flowchartOptions.curve = parsed.curve;
-  if (Object.keys(flowchartOptions).length > 0) config.flowchart = flowchartOptions;
-
-  // Sequence diagram options
-  const sequenceOptions: MermaidConfig['sequence'] = {};
-  if (parsed.mirrorActors) sequenceOptions.mirrorActors = parsed.mirrorActors === 'true';
-  if (parsed.messageAlign) sequenceOptions.messageAlign = parsed.messageAlign;
-  if (Object.keys(sequenceOptions).length > 0) config.sequence = sequenceOptions;
-
-  return config;
+  /**
+   * SVG rendered at build time (`prerender` option of the remark plugin).
+   * Shown during SSR and until the client render is ready, for the `strict` security level only.
+   * It is injected as-is, sanitize SVGs that don't come from the remark plugin.
+   */
+  svg?: string;
+
+  /**
+   * Dark mode variant of `svg`, shown instead when the `dark` class is set on `<html>`.
+   */
+  svgDark?: string;
 }
 
 /**
  * Mermaid diagram component with theme support
  *
  * Automatically detects dark/light mode when used with next-themes.
- * Renders on client-side only to avoid hydration issues.
+ * Renders on client-side only to avoid hydration issues, unless a
+ * prerendered `svg` is given, which is shown until the client render is ready.
+ * Diagrams are only rendered once they come near the viewport, unless `eager` is set.
+ * Invalid charts show an inline error panel instead of throwing.
+ * With a `title`, `caption`, `label` or `id`, it is rendered as a `<figure>`.
+ * Defaults for all props can be set with `MermaidProvider`.
  */
-export function Mermaid({ chart, theme: themeOverride, themeCSS = 'margin: 1.5rem auto 0;', config, exportable, zoomable }: MermaidProps) {
+export function Mermaid({ chart, theme: themeOverride, lightTheme, darkTheme, themeCSS, config, exportable, exportScale, exportBackground, filename, title, caption, id, label, accTitle, accDescr, textAlternative, forkable, showSource, securityLevel, zoomable, fullscreen, minimap, steps, highlight, highlightConnections, eager, rootMargin = '200px', svg, svgDark }: MermaidProps) {
+  const defaults = useMermaidDefaults();
   const [mounted, setMounted] = useState(false);
+  const [inView, setInView] = useState(false);
+  const placeholderRef = useRef<HTMLDivElement>(null);
+  const isEager = eager === 'true';
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  if (!mounted) return null;
-
-  return <MermaidContent chart={chart} themeOverride={themeOverride} themeCSS={themeCSS} config={config} exportable={exportable === 'true'} zoomable={zoomable === 'true'} />;
-}
+  useEffect(() => {
+    if (isEager || inView) return;
+    const element = placeholderRef.current;
+    if (!element) return;
 
-// Cache for mermaid library and rendered diagrams
-const cache = new Map<string, Promise<unknown>>();
+    if (typeof IntersectionObserver === 'undefined') {
+      setInView(true);
+      return;
+    }
 
-function cachePromise<T>(key: string, setPromise: () => Promise<T>): Promise<T> {
-  const cached = cache.get(key);
-  if (cached) return cached as Promise<T>;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) setInView(true);
+    }, { rootMargin });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isEager, inView, rootMargin]);
+
+  const figure = { id, label, title, caption };
+
+  // Sandboxed diagrams are an iframe, there is no SVG in the page to export or zoom
+  const resolvedSecurityLevel = toSecurityLevel(securityLevel) ?? defaults.securityLevel ?? 'strict';
+  const sandboxed = resolvedSecurityLevel === 'sandbox';
+
+  // Prerendered SVGs use the `strict` level, they would change after hydration otherwise
+  const fallback = svg && resolvedSecurityLevel === 'strict' ? <PrerenderedDiagram svg={svg} svgDark={svgDark} /> : null;
+
+  const withSource = (node: React.ReactNode) =>
+    resolveFlag(showSource, defaults.showSource) ? <SourceTabs chart={chart}>{node}</SourceTabs> : node;
+
+  if (!mounted || !(isEager || inView)) {
+    return (
+      <DiagramFigure {...figure}>
+        {withSource(
+          <div ref={placeholderRef} data-mermaid-placeholder="">
+            {fallback ?? <DiagramPlaceholder />}
+          </div>,
+        )}
+      </DiagramFigure>
+    );
+  }
 
-  const promise = setPromise();
-  cache.set(key, promise);
-  return promise;
-}
+  const content = (
+    <MermaidContent
+      chart={chart}
+      themeOverride={themeOverride}
+      themes={{
+        light: lightTheme ?? defaults.themes?.light,
+        dark: darkTheme ?? defaults.themes?.dark,
+      }}
+      themeCSS={themeCSS ?? defaults.themeCSS ?? 'margin: 1.5rem auto 0;'}
+      baseConfig={defaults.config}
+      fontFamily={defaults.fontFamily ?? 'inherit'}
+      config={config}
+      securityLevel={resolvedSecurityLevel}
+      exportable={!sandboxed && resolveFlag(exportable, defaults.exportable)}
+      exportScale={Number(exportScale) || defaults.exportOptions?.scale || 2}
+      exportBackground={exportBackground ?? defaults.exportOptions?.background ?? 'theme'}
+      filename={getExportFilename(filename, title)}
+      forkable={resolveFlag(forkable, defaults.forkable)}
+      accTitle={accTitle ?? title}
+      accDescr={accDescr}
+      textAlternative={resolveFlag(textAlternative, defaults.textAlternative)}
+      zoomable={!sandboxed && resolveFlag(zoomable, defaults.zoomable)}
+      fullscreen={!sandboxed && resolveFlag(fullscreen, defaults.fullscreen)}
+      minimap={resolveFlag(minimap, defaults.minimap)}
+      steps={!sandboxed && steps && steps !== 'false' && supportsSteps(chart) ? steps : undefined}
+      highlight={!sandboxed && supportsHighlight(chart) ? highlight : undefined}
+      highlightConnections={!sandboxed && supportsHighlight(chart) && resolveFlag(highlightConnections, defaults.highlightConnections)}
+    />
+  );
 
-interface MermaidContentProps {
-  chart: string;
-  themeOverride?: string;
-  themeCSS: string;
-  config?: string;
-  exportable: boolean;
-  zoomable: boolean;
+  return (
+    <DiagramFigure {...figure}>
+      {withSource(
+        <MermaidErrorBoundary chart={chart}>
+          {/* Show the static SVG or a placeholder while mermaid loads, instead of suspending the app's boundary */}
+          <Suspense fallback={fallback ?? <DiagramPlaceholder />}>{content}</Suspense>
+        </MermaidErrorBoundary>,
+      )}
+    </DiagramFigure>
+  );
 }
 
-function svgToPngBlob(svgElement: SVGSVGElement): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    const svgData = new XMLSerializer().serializeToString(svgElement);
-    const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
-    const url = URL.createObjectURL(svgBlob);
-
-    const viewBox = svgElement.getAttribute('viewBox');
-    let width = svgElement.width.baseVal.value || 800;
-    let height = svgElement.height.baseVal.value || 600;
-    if (viewBox) {
-      const parts = viewBox.split(/\s+|,/).map(Number);
-      if (parts.length === 4) {
-        width = parts[2];
-        height = parts[3];
-      }
-    }
-
-    const scale = 2;
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = width * scale;
-      canvas.height = height * scale;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        URL.revokeObjectURL(url);
-        reject(new Error('Failed to get canvas context'));
-        return;
-      }
-      ctx.scale(scale, scale);
-      ctx.drawImage(img, 0, 0, width, height);
-      URL.revokeObjectURL(url);
-      canvas.toBlob((blob) => {
-        if (blob) resolve(blob);
-        else reject(new Error('Failed to create PNG blob'));
-      }, 'image/png');
-    };
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error('Failed to load SVG image'));
-    };
-    img.src = url;
-  });
+/**
+ * Flags from code block attributes take priority over the provider's defaults
+ */
+function resolveFlag(value: string | undefined, defaultValue: boolean | undefined): boolean {
+  return value !== undefined ? value === 'true' : defaultValue ?? false;
 }
 
-function ExportButtons({ containerRef }: { containerRef: React.RefObject<HTMLDivElement | null> }) {
-  const [copied, onCopy] = useCopyButton(async () => {
-    const svgEl = containerRef.current?.querySelector('svg');
-    if (!svgEl) return;
-    const blob = await svgToPngBlob(svgEl);
-    await navigator.clipboard.write([
-      new ClipboardItem({ 'image/png': blob }),
-    ]);
-  });
-
-  const handleDownload = useCallback(() => {
-    const svgEl = containerRef.current?.querySelector('svg');
-    if (!svgEl) return;
-    const svgData = new XMLSerializer().serializeToString(svgEl);
-    const blob = new Blob([svgData], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'diagram.svg';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [containerRef]);
-
+function DiagramPlaceholder() {
   return (
-    <>
-      <button
-        type="button"
-        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
-        onClick={onCopy}
-        aria-label="Copy as PNG"
-      >
-        {copied ? <Check style={{ width: 14, height: 14 }} /> : <Copy style={{ width: 14, height: 14 }} />}
-      </button>
-      <button
-        type="button"
-        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
-        onClick={handleDownload}
-        aria-label="Download as SVG"
-      >
-        <Download style={{ width: 14, height: 14 }} />
-      </button>
-    </>
+    <div
+      aria-busy="true"
+      style={{
+        minHeight: '10rem',
+        margin: '1.5rem 0 0',
+        borderRadius: '8px',
+        background: 'var(--color-fd-muted, #f4f4f5)',
+      }}
+    />
   );
 }
 
-const MIN_ZOOM = 0.5;
-const MAX_ZOOM = 4;
-const ZOOM_STEP = 0.25;
+const VISUALLY_HIDDEN: React.CSSProperties = {
+  position: 'absolute',
+  width: '1px',
+  height: '1px',
+  padding: 0,
+  margin: '-1px',
+  overflow: 'hidden',
+  clip: 'rect(0, 0, 0, 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
 
-interface ZoomState {
-  scale: number;
-  translateX: number;
-  translateY: number;
-}
+const PRERENDERED_CSS = 'html.dark [data-mermaid-prerendered="light"],html:not(.dark) [data-mermaid-prerendered="dark"]{display:none}';
 
-interface ZoomActions {
-  zoomIn: () => void;
-  zoomOut: () => void;
-  reset: () => void;
-}
+/**
+ * SVGs of the remark plugin are sanitized at build time by `prerenderMermaid`,
+ * so server and client render the same markup
+ */
+function PrerenderedDiagram({ svg, svgDark }: { svg: string; svgDark?: string }) {
+
+  if (!svgDark) return <div dangerouslySetInnerHTML={{ __html: svg }} />;
 
-function ZoomButtons({ actionsRef }: { actionsRef: React.RefObject<ZoomActions | null> }) {
   return (
     <>
-      <button
-        type="button"
-        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
-        onClick={() => actionsRef.current?.zoomIn()}
-        aria-label="Zoom in"
-      >
-        <ZoomIn style={{ width: 14, height: 14 }} />
-      </button>
-      <button
-        type="button"
-        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
-        onClick={() => actionsRef.current?.zoomOut()}
-        aria-label="Zoom out"
-      >
-        <ZoomOut style={{ width: 14, height: 14 }} />
-      </button>
-      <button
-        type="button"
-        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
-        onClick={() => actionsRef.current?.reset()}
-        aria-label="Reset zoom"
-      >
-        <RotateCcw style={{ width: 14, height: 14 }} />
-      </button>
+      <style>{PRERENDERED_CSS}</style>
+      <div data-mermaid-prerendered="light" dangerouslySetInnerHTML={{ __html: svg }} />
+      <div data-mermaid-prerendered="dark" dangerouslySetInnerHTML={{ __html: svgDark }} />
     </>
   );
 }
 
-function ZoomableViewport({ children, actionsRef }: { children: ReactNode; actionsRef: React.MutableRefObject<ZoomActions | null> }) {
-  const outerRef = useRef<HTMLDivElement>(null);
-  const innerRef = useRef<HTMLDivElement>(null);
-  const stateRef = useRef<ZoomState>({ scale: 1, translateX: 0, translateY: 0 });
-  const draggingRef = useRef(false);
-  const lastPointerRef = useRef({ x: 0, y: 0 });
-
-  const applyTransform = useCallback(() => {
-    const el = innerRef.current;
-    if (!el) return;
-    const { scale, translateX, translateY } = stateRef.current;
-    el.style.transform = `translate(${translateX}px, ${translateY}px) scale(${scale})`;
-  }, []);
-
-  const clampScale = useCallback((s: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, s)), []);
-
-  // Attach wheel handler imperatively with { passive: false } so
-  // preventDefault() works and the page doesn't scroll while zooming.
-  useEffect(() => {
-    const outer = outerRef.current;
-    if (!outer) return;
-
-    const handleWheel = (e: WheelEvent) => {
-      e.preventDefault();
+interface MermaidContentProps {
+  chart: string;
+  themeOverride?: string;
+  themes?: { light?: string; dark?: string };
+  themeCSS: string;
+  baseConfig?: MermaidConfig;
+  fontFamily: string;
+  config?: string;
+  securityLevel: MermaidSecurityLevel;
+  exportable: boolean;
+  exportScale: number;
+  exportBackground: string;
+  filename: string;
+  forkable: boolean;
+  accTitle?: string;
+  accDescr?: string;
+  textAlternative: boolean;
+  zoomable: boolean;
+  fullscreen: boolean;
+  minimap: boolean;
+  steps?: string;
+  highlight?: string;
+  highlightConnections: boolean;
+}
 
-      const rect = outer.getBoundingClientRect();
-      const cursorX = e.clientX - rect.left;
-      const cursorY = e.clientY - rect.top;
+function MermaidContent({ chart, themeOverride, themes, themeCSS, baseConfig, fontFamily, config: configStr, securityLevel, exportable, exportScale, exportBackground, filename, forkable, accTitle, accDescr, textAlternative, zoomable, fullscreen, minimap, steps, highlight, highlightConnections }: MermaidContentProps) {
+  // useId() contains characters that aren't valid in CSS selectors
+  const id = `mermaid-${useId().replace(/[^\w-]/g, '')}`;
+  const { resolvedTheme: systemTheme } = useTheme();
+  const containerRef = useRef<HTMLDivElement | null>(null);
 
-      const state = stateRef.current;
-      const oldScale = state.scale;
-      const newScale = clampScale(oldScale + (e.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP));
+  // Use override if provided, otherwise use system theme with the provider's themes, fallback to 'default'
+  const resolvedTheme = themeOverride ?? (systemTheme === 'dark' ? themes?.dark ?? 'dark' : themes?.light ?? 'default');
+
+  const { mermaid, version } = use(loadMermaid());
+
+  // The config is global: initialize in the queue, right before rendering, so a render
+  // running at the same time never sees the security level of another diagram
+  const render = (renderId: string, text: string) => runExclusive(() => {
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel,
+      fontFamily: 'inherit',
+      // Errors are shown by MermaidErrorBoundary instead of Mermaid's error diagram
+      suppressErrorRendering: true,
+    });
+    return mermaid.render(renderId, text);
+  });
 
-      state.translateX = cursorX - (cursorX - state.translateX) * (newScale / oldScale);
-      state.translateY = cursorY - (cursorY - state.translateY) * (newScale / oldScale);
-      state.scale = newScale;
+  // Build per-diagram config on top of the provider's base config
+  const configForTheme = (theme: string) => {
+    const result = mergeMermaidConfig(baseConfig ?? {}, buildMermaidConfig(configStr, theme));
+    result.themeCSS = themeCSS;
+    result.fontFamily = fontFamily;
+    return result;
+  };
+  const diagramConfig = configForTheme(resolvedTheme);
+  const blockTheme = diagramConfig.theme;
+
+  // Fill the base theme with the page's Fumadocs colors, explicit themeVariables win
+  const fumadocsVariables = useFumadocsThemeVariables(diagramConfig.theme === FUMADOCS_THEME);
+  if (fumadocsVariables) {
+    diagramConfig.theme = 'base';
+    diagramConfig.themeVariables = { ...fumadocsVariables, ...(diagramConfig.themeVariables as object | undefined) };
+  }
 
-      applyTransform();
-    };
+  // Prepend init directive for per-diagram isolation
+  const fullChart = withInitDirective(chart, diagramConfig);
 
-    outer.addEventListener('wheel', handleWheel, { passive: false });
-    return () => outer.removeEventListener('wheel', handleWheel);
-  }, [applyTransform, clampScale]);
-
-  const handlePointerDown = useCallback((e: React.PointerEvent) => {
-    if (e.button !== 0) return;
-    draggingRef.current = true;
-    lastPointerRef.current = { x: e.clientX, y: e.clientY };
-    (e.target as HTMLElement).setPointerCapture(e.pointerId);
-    const outer = outerRef.current;
-    if (outer) outer.style.cursor = 'grabbing';
-  }, []);
+  // Render theme switches in the background and keep showing the current
+  // diagram (and its zoom state) until the new variant is ready
+  const deferredChart = useDeferredValue(fullChart);
 
-  const handlePointerMove = useCallback((e: React.PointerEvent) => {
-    if (!draggingRef.current) return;
-    const dx = e.clientX - lastPointerRef.current.x;
-    const dy = e.clientY - lastPointerRef.current.y;
-    lastPointerRef.current = { x: e.clientX, y: e.clientY };
-
-    stateRef.current.translateX += dx;
-    stateRef.current.translateY += dy;
-    applyTransform();
-  }, [applyTransform]);
-
-  const handlePointerUp = useCallback(() => {
-    draggingRef.current = false;
-    const outer = outerRef.current;
-    if (outer) outer.style.cursor = 'grab';
-  }, []);
+  // Click handlers are bound by `bindFunctions`, which isn't available from persistent storage
+  const interactive = /^\s*click\s/m.test(chart);
 
-  const zoomIn = useCallback(() => {
-    const outer = outerRef.current;
-    if (!outer) return;
-    const state = stateRef.current;
-    const rect = outer.getBoundingClientRect();
-    const cx = rect.width / 2;
-    const cy = rect.height / 2;
-    const oldScale = state.scale;
-    const newScale = clampScale(oldScale + ZOOM_STEP);
-    state.translateX = cx - (cx - state.translateX) * (newScale / oldScale);
-    state.translateY = cy - (cy - state.translateY) * (newScale / oldScale);
-    state.scale = newScale;
-    applyTransform();
-  }, [applyTransform, clampScale]);
-
-  const zoomOut = useCallback(() => {
-    const outer = outerRef.current;
-    if (!outer) return;
-    const state = stateRef.current;
-    const rect = outer.getBoundingClientRect();
-    const cx = rect.width / 2;
-    const cy = rect.height / 2;
-    const oldScale = state.scale;
-    const newScale = clampScale(oldScale - ZOOM_STEP);
-    state.translateX = cx - (cx - state.translateX) * (newScale / oldScale);
-    state.translateY = cy - (cy - state.translateY) * (newScale / oldScale);
-    state.scale = newScale;
-    applyTransform();
-  }, [applyTransform, clampScale]);
-
-  const reset = useCallback(() => {
-    stateRef.current = { scale: 1, translateX: 0, translateY: 0 };
-    applyTransform();
-  }, [applyTransform]);
-
-  // Expose zoom actions to parent
-  useEffect(() => {
-    actionsRef.current = { zoomIn, zoomOut, reset };
-    return () => { actionsRef.current = null; };
-  }, [actionsRef, zoomIn, zoomOut, reset]);
+  // The init directive covers chart, theme and config, the security level
+  // is global and changes the output, so strict and loose renders never mix
+  const key = hashKey(version, securityLevel, deferredChart);
+  const renderId = `mermaid-${key}`;
 
-  return (
-    <div
-      ref={outerRef}
-      style={{
-        overflow: 'hidden',
-        borderRadius: '8px',
-        border: '1px solid var(--fd-border, #e5e7eb)',
-        cursor: 'grab',
-        touchAction: 'none',
-      }}
-      onPointerDown={handlePointerDown}
-      onPointerMove={handlePointerMove}
-      onPointerUp={handlePointerUp}
-      onPointerCancel={handlePointerUp}
-    >
-      <div
-        ref={innerRef}
-        style={{ transformOrigin: '0 0' }}
-      >
-        {children}
-      </div>
-    </div>
+  const { svg: cachedSvg, bindFunctions } = getFinishedRender(key) ?? use(
+    renderCached(key, () => render(renderId, deferredChart), !interactive)
   );
-}
-
-function MermaidContent({ chart, themeOverride, themeCSS, config: configStr, exportable, zoomable }: MermaidContentProps) {
-  const id = useId();
-  const { resolvedTheme: systemTheme } = useTheme();
-  const containerRef = useRef<HTMLDivElement | null>(null);
-
-  // Use override if provided, otherwise use system theme, fallback to 'default'
-  const resolvedTheme = themeOverride ?? (systemTheme === 'dark' ? 'dark' : 'default');
-
-  const { default: mermaid } = use(
-    cachePromise('mermaid', () => import('mermaid'))
+  const sandboxed = securityLevel === 'sandbox';
+  const svg = useMemo(
+    () => sanitizeSvg(rewriteSvgIds(cachedSvg, renderId, id), sandboxed),
+    [cachedSvg, renderId, id, sandboxed],
   );
 
-  // Minimal global init - just basics
-  mermaid.initialize({
-    startOnLoad: false,
-    securityLevel: 'loose',
-    fontFamily: 'inherit',
-  });
+  // Variant for the other color scheme, unless the theme is fixed. The fumadocs
+  // theme can't be prepared ahead, its colors are only known once the scheme is applied.
+  const otherTheme = themeOverride ? undefined : systemTheme === 'dark' ? themes?.light ?? 'default' : themes?.dark ?? 'dark';
+  const otherConfig = otherTheme && otherTheme !== FUMADOCS_THEME ? configForTheme(otherTheme) : undefined;
+  const otherChart = otherConfig && otherConfig.theme !== blockTheme ? withInitDirective(chart, otherConfig) : undefined;
 
-  // Build per-diagram config
-  const diagramConfig = buildMermaidConfig(configStr, resolvedTheme);
-  diagramConfig.themeCSS = themeCSS;
+  // Render it when idle, so toggling dark mode swaps diagrams instantly
+  useEffect(() => {
+    if (!otherChart) return;
+    const otherKey = hashKey(version, securityLevel, otherChart);
+    const warm = () => {
+      renderCached(otherKey, () => render(`mermaid-${otherKey}`, otherChart), !interactive).catch(() => undefined);
+    };
 
-  // Prepend init directive for per-diagram isolation
-  const initDirective = `%%{init: ${JSON.stringify(diagramConfig)}}%%\n`;
-  const fullChart = initDirective + chart.replaceAll('\\n', '\n');
+    if (typeof requestIdleCallback === 'undefined') {
+      const timeout = setTimeout(warm, 200);
+      return () => clearTimeout(timeout);
+    }
 
-  const { svg, bindFunctions } = use(
-    cachePromise(`${chart}-${resolvedTheme}-${configStr ?? ''}`, () => {
-      return mermaid.render(id, fullChart);
-    })
-  );
+    const handle = requestIdleCallback(warm);
+    return () => cancelIdleCallback(handle);
+  }, [mermaid, version, securityLevel, otherChart, interactive]);
 
   const refCallback: RefCallback<HTMLDivElement> = useCallback((node) => {
     if (node) {
@@ -476,56 +475,134 @@ function MermaidContent({ chart, themeOverride, themeCSS, config: configStr, exp
     }
   }, [bindFunctions]);
 
+  useDiagramLinks(containerRef, svg);
+  const diagramSteps = useDiagramSteps(containerRef, svg, chart, steps);
+  useDiagramHighlight(containerRef, svg, chart, highlight, highlightConnections);
+
+  const [description, setDescription] = useState<DiagramDescription>();
+  useEffect(() => {
+    if (!textAlternative) return;
+    let cancelled = false;
+    describeDiagram(mermaid, chart).then(
+      (result) => {
+        if (!cancelled) setDescription(result);
+      },
+      () => undefined,
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [mermaid, chart, textAlternative]);
+
   const zoomActionsRef = useRef<ZoomActions | null>(null);
+  const fullscreenButtonRef = useRef<HTMLButtonElement | null>(null);
+  const [fullscreenOpen, setFullscreenOpen] = useState(false);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+
+  // Children of role="img" are hidden from assistive technology, which would make click links
+  // and focusable nodes unreachable. A group keeps them reachable, and unlike a plain div it can be named.
+  const accessibleName = accTitle ?? (textAlternative ? description?.summary : undefined);
+  const descriptionId = `${id}-description`;
+  const role = interactive || highlightConnections ? 'group' : 'img';
 
   const svgDiv = (
     <div
       ref={refCallback}
+      role={accessibleName ? role : undefined}
+      aria-label={accessibleName}
+      aria-describedby={accDescr ? descriptionId : undefined}
       dangerouslySetInnerHTML={{ __html: svg }}
     />
   );
 
-  const hasToolbar = exportable || zoomable;
+  const textVersion = (
+    <>
+      {interactive && <style>{EXTERNAL_LINK_CSS}</style>}
+      {steps && <style>{STEPS_CSS}</style>}
+      {(highlight || highlightConnections) && <style>{HIGHLIGHT_CSS}</style>}
+      {accDescr && <span id={descriptionId} hidden>{accDescr}</span>}
+      {textAlternative && description && (
+        <div style={VISUALLY_HIDDEN}>
+          <p>{description.summary}</p>
+          {description.items.length > 0 && (
+            <ul>
+              {description.items.map((item, i) => <li key={i}>{item}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </>
+  );
+
+  const hasToolbar = exportable || forkable || zoomable || fullscreen || steps !== undefined;
 
   const diagram = zoomable
-    ? <ZoomableViewport actionsRef={zoomActionsRef}>{svgDiv}</ZoomableViewport>
+    ? <ZoomableViewport actionsRef={zoomActionsRef} minimap={minimap}>{svgDiv}</ZoomableViewport>
     : svgDiv;
 
-  if (!hasToolbar) return diagram;
+  if (!hasToolbar) {
+    return (
+      <>
+        {diagram}
+        {textVersion}
+      </>
+    );
+  }
 
-  // When zoomable, toolbar is always visible.
-  // When only exportable, toolbar fades in on hover.
-  const alwaysVisible = zoomable;
+  // When zoomable or stepped through, toolbar is always visible.
+  // Otherwise it fades in on hover, or when one of its buttons has keyboard focus.
+  const toolbarVisible = zoomable || steps !== undefined || hovered || focused;
 
   return (
     <div
       style={{ position: 'relative' }}
-      onMouseEnter={!alwaysVisible ? (e) => {
-        const toolbar = e.currentTarget.querySelector('[data-diagram-toolbar]') as HTMLElement | null;
-        if (toolbar) toolbar.style.opacity = '1';
-      } : undefined}
-      onMouseLeave={!alwaysVisible ? (e) => {
-        const toolbar = e.currentTarget.querySelector('[data-diagram-toolbar]') as HTMLElement | null;
-        if (toolbar) toolbar.style.opacity = '0';
-      } : undefined}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      onFocus={() => setFocused(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setFocused(false);
+      }}
     >
       {diagram}
+      {textVersion}
       <div
+        role="toolbar"
+        aria-label="Diagram actions"
         style={{
           position: 'absolute',
           top: '8px',
           right: '8px',
           display: 'flex',
           gap: '4px',
-          opacity: alwaysVisible ? 1 : 0,
-          transition: alwaysVisible ? undefined : 'opacity 150ms',
+          opacity: toolbarVisible ? 1 : 0,
+          transition: zoomable ? undefined : 'opacity 150ms',
           zIndex: 1,
         }}
         data-diagram-toolbar
       >
-        {exportable && <ExportButtons containerRef={containerRef} />}
+        {exportable && (
+          <ExportButtons
+            containerRef={containerRef}
+            scale={exportScale}
+            background={exportBackground}
+            filename={filename}
+          />
+        )}
+        {forkable && <SourceActions chart={chart} config={diagramConfig} />}
+        {diagramSteps.count > 0 && <StepControls {...diagramSteps} />}
         {zoomable && <ZoomButtons actionsRef={zoomActionsRef} />}
+        {fullscreen && <FullscreenButton buttonRef={fullscreenButtonRef} onOpen={() => setFullscreenOpen(true)} />}
       </div>
+      {fullscreenOpen && (
+        <FullscreenDialog
+          svg={svg}
+          svgId={id}
+          returnFocusRef={fullscreenButtonRef}
+          minimap={minimap}
+          onClose={() => setFullscreenOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,145 @@
+'use client';
+
+import { createContext, type ReactNode, use, useMemo } from 'react';
+import type { MermaidConfig } from '../mermaid-config';
+import type { MermaidExportOptions } from './export';
+import type { MermaidSecurityLevel } from './sanitize';
+
+export interface MermaidDefaults {
+  /**
+   * Base Mermaid config for every diagram, e.g. `{ flowchart: { nodeSpacing: 60 } }`.
+   * Code block attributes are merged on top.
+   */
+  config?: MermaidConfig;
+
+  /**
+   * Mermaid themes used in light and dark mode
+   * @defaultValue { light: 'default', dark: 'dark' }
+   */
+  themes?: { light?: string; dark?: string };
+
+  /**
+   * Additional CSS for the diagram container
+   * @defaultValue 'margin: 1.5rem auto 0;'
+   */
+  themeCSS?: string;
+
+  /**
+   * Show copy (PNG) and download (PNG, SVG) buttons on every diagram
+   * @defaultValue false
+   */
+  exportable?: boolean;
+
+  /**
+   * Scale and background of exported images
+   * @defaultValue { scale: 2, background: 'theme' }
+   */
+  exportOptions?: MermaidExportOptions;
+
+  /**
+   * Add "Copy source" and "Open in Mermaid Live Editor" buttons to every diagram
+   * @defaultValue false
+   */
+  forkable?: boolean;
+
+  /**
+   * Add "Diagram" and "Source" tabs to every diagram
+   * @defaultValue false
+   */
+  showSource?: boolean;
+
+  /**
+   * Enable pan and zoom on every diagram
+   * @defaultValue false
+   */
+  zoomable?: boolean;
+
+  /**
+   * Add a fullscreen button to every diagram
+   * @defaultValue false
+   */
+  fullscreen?: boolean;
+
+  /**
+   * Show a minimap on zoomable and fullscreen diagrams
+   * @defaultValue false
+   */
+  minimap?: boolean;
+
+  /**
+   * Highlight the edges and neighbors of hovered or focused nodes in every flowchart
+   * @defaultValue false
+   */
+  highlightConnections?: boolean;
+
+  /**
+   * Add a screen reader only text version to every flowchart and sequence diagram
+   * @defaultValue false
+   */
+  textAlternative?: boolean;
+
+  /**
+   * Mermaid's security level of every diagram. Use `'loose'` only for trusted
+   * content, it allows HTML labels and `click` callbacks.
+   * @defaultValue 'strict'
+   */
+  securityLevel?: MermaidSecurityLevel;
+
+  /**
+   * Font family of diagram text
+   * @defaultValue 'inherit'
+   */
+  fontFamily?: string;
+}
+
+export interface MermaidProviderProps extends MermaidDefaults {
+  children: ReactNode;
+}
+
+const MermaidContext = createContext<MermaidDefaults>({});
+
+/**
+ * Set site-wide defaults for every `<Mermaid />` below it.
+ * Props and code block attributes of a single diagram take priority.
+ *
+ * @example
+ * ```tsx
+ * <MermaidProvider exportable zoomable config={{ flowchart: { nodeSpacing: 60 } }}>
+ *   {children}
+ * </MermaidProvider>
+ * ```
+ */
+export function MermaidProvider({ children, config, themes, themeCSS, exportable, exportOptions, forkable, showSource, zoomable, fullscreen, minimap, highlightConnections, textAlternative, securityLevel, fontFamily }: MermaidProviderProps) {
+  const light = themes?.light;
+  const dark = themes?.dark;
+
+  // Avoid re-rendering every diagram when the provider's parent re-renders with inline objects
+  const configKey = JSON.stringify(config);
+  const exportScale = exportOptions?.scale;
+  const exportBackground = exportOptions?.background;
+  const value = useMemo<MermaidDefaults>(
+    () => ({
+      config,
+      themes: { light, dark },
+      themeCSS,
+      exportable,
+      exportOptions: { scale: exportScale, background: exportBackground },
+      forkable,
+      showSource,
+      zoomable,
+      fullscreen,
+      minimap,
+      highlightConnections,
+      textAlternative,
+      securityLevel,
+      fontFamily,
+    }),
+    [configKey, light, dark, themeCSS, exportable, exportScale, exportBackground, forkable, showSource, zoomable, fullscreen, minimap, highlightConnections, textAlternative, securityLevel, fontFamily],
+  );
+
+  return <MermaidContext.Provider value={value}>{children}</MermaidContext.Provider>;
+}
+
+export function useMermaidDefaults(): MermaidDefaults {
+  return use(MermaidContext);
+}
@@ -0,0 +1,242 @@
+import type { Mermaid, RenderResult } from 'mermaid';
+
+export interface RenderedDiagram {
+  svg: string;
+  bindFunctions?: RenderResult['bindFunctions'];
+}
+
+/**
+ * Persistent storage for rendered SVGs, keyed by content hash.
+ * Errors are ignored, the diagram is rendered again instead.
+ */
+export interface MermaidCacheStorage {
+  get: (key: string) => Promise<string | undefined>;
+  set: (key: string, svg: string) => Promise<void>;
+}
+
+export interface MermaidCacheOptions {
+  /**
+   * Maximum number of rendered diagrams kept in memory
+   * @defaultValue 100
+   */
+  maxEntries?: number;
+
+  /**
+   * Keep rendered SVGs across reloads. `true` uses IndexedDB.
+   * @defaultValue false
+   */
+  storage?: boolean | MermaidCacheStorage;
+}
+
+/**
+ * Map with a maximum size, evicting the least recently used entry first.
+ */
+class LRUCache<V> {
+  private readonly entries = new Map<string, V>();
+
+  constructor(public maxSize: number) {}
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) return undefined;
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  peek(key: string): V | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+interface CachedRender {
+  promise: Promise<RenderedDiagram>;
+
+  /**
+   * Set once the render has finished
+   */
+  value?: RenderedDiagram;
+}
+
+const renders = new LRUCache<CachedRender>(100);
+let storage: MermaidCacheStorage | undefined;
+
+/**
+ * Configure the cache of rendered diagrams, shared by every `<Mermaid />` on the page.
+ */
+export function configureMermaidCache({ maxEntries, storage: storageOption }: MermaidCacheOptions) {
+  if (maxEntries !== undefined) renders.maxSize = maxEntries;
+  if (storageOption !== undefined) {
+    storage = storageOption === true
+      ? createIndexedDBStorage()
+      : storageOption || undefined;
+  }
+}
+
+interface MermaidModule {
+  mermaid: Mermaid;
+  version: string;
+}
+
+let mermaidPromise: Promise<MermaidModule> | undefined;
+
+export function loadMermaid(): Promise<MermaidModule> {
+  mermaidPromise ??= Promise.all([
+    import('mermaid'),
+    import('mermaid/package.json').catch(() => ({ default: { version: 'unknown' } })),
+  ]).then(([mod, pkg]) => ({ mermaid: mod.default, version: pkg.default.version }));
+
+  // Allow retrying after a failed chunk load
+  mermaidPromise.catch(() => {
+    mermaidPromise = undefined;
+  });
+
+  return mermaidPromise;
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run Mermaid work one task at a time. Mermaid keeps the parsed diagram in
+ * module-level databases, so parsing one chart while another renders mixes them up.
+ */
+export function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Content hash (two 53-bit cyrb53 hashes) of the given parts
+ */
+export function hashKey(...parts: string[]): string {
+  const str = parts.join('\0');
+  const hash = (seed: number) => {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < str.length; i++) {
+      const ch = str.charCodeAt(i);
+      h1 = Math.imul(h1 ^ ch, 2654435761);
+      h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+  };
+
+  return hash(0) + hash(1);
+}
+
+/**
+ * Get a rendered diagram from memory or persistent storage, rendering it if missing.
+ * Failed renders are evicted, so a fixed chart or a retry renders again.
+ *
+ * @param persist - whether the result may come from and be written to storage.
+ * Stored SVGs have no `bindFunctions`, so interactive diagrams should not be persisted.
+ */
+export function renderCached(key: string, render: () => Promise<RenderedDiagram>, persist: boolean): Promise<RenderedDiagram> {
+  const cached = renders.get(key);
+  if (cached) return cached.promise;
+
+  const store = persist ? storage : undefined;
+  const promise = (async (): Promise<RenderedDiagram> => {
+    const stored = await store?.get(key).catch(() => undefined);
+    if (stored) return { svg: stored };
+
+    const result = await render();
+    store?.set(key, result.svg).catch(() => undefined);
+    return result;
+  })();
+
+  const entry: CachedRender = { promise };
+  renders.set(key, entry);
+  promise.then(
+    (value) => {
+      entry.value = value;
+    },
+    () => {
+      if (renders.peek(key) === entry) renders.delete(key);
+    },
+  );
+
+  return promise;
+}
+
+/**
+ * A finished render, so diagrams rendered in the background (e.g. the other theme)
+ * are shown without suspending
+ */
+export function getFinishedRender(key: string): RenderedDiagram | undefined {
+  return renders.get(key)?.value;
+}
+
+/**
+ * Give a cached SVG the DOM id of the instance showing it, so identical
+ * diagrams on one page don't share ids (and style each other).
+ * Mermaid derives every inner id (markers, clip paths, ...) from the render id.
+ */
+export function rewriteSvgIds(svg: string, renderId: string, instanceId: string): string {
+  if (renderId === instanceId) return svg;
+  return svg.replaceAll(renderId, instanceId);
+}
+
+const DB_STORE = 'svg';
+const MAX_AGE = 1000 * 60 * 60 * 24 * 7;
+
+function createIndexedDBStorage(name = 'fumadocs-mermaid'): MermaidCacheStorage | undefined {
+  if (typeof indexedDB === 'undefined') return undefined;
+
+  let dbPromise: Promise<IDBDatabase> | undefined;
+  const open = () => {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async get(key) {
+      const entry = await run<{ svg: string; time: number } | undefined>('readonly', (store) => store.get(key));
+      if (!entry) return undefined;
+
+      if (Date.now() - entry.time > MAX_AGE) {
+        await run('readwrite', (store) => store.delete(key));
+        return undefined;
+      }
+
+      return entry.svg;
+    },
+    async set(key, svg) {
+      await run('readwrite', (store) => store.put({ svg, time: Date.now() }, key));
+    },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Mermaid's `securityLevel`:
+ *
+ * - `'strict'`: HTML in labels is escaped and `click` callbacks are disabled
+ * - `'antiscript'`: HTML in labels is allowed, scripts are removed
+ * - `'loose'`: HTML in labels and `click` callbacks are allowed
+ * - `'sandbox'`: the diagram is rendered in a sandboxed iframe, links and interaction don't work
+ */
+export type MermaidSecurityLevel = 'strict' | 'antiscript' | 'loose' | 'sandbox';
+
+const SECURITY_LEVELS: MermaidSecurityLevel[] = ['strict', 'antiscript', 'loose', 'sandbox'];
+
+export function toSecurityLevel(value: string | undefined): MermaidSecurityLevel | undefined {
+  return SECURITY_LEVELS.find((level) => level === value);
+}
+
+const BLOCKED_ELEMENTS = 'script, iframe, frame, frameset, object, embed, applet, base, meta, link, portal';
+const URL_ATTRIBUTES = ['href', 'xlink:href', 'src', 'action', 'formaction', 'data'];
+const UNSAFE_URL = /^(?:javascript:|vbscript:|data:(?!image\/(?:png|gif|jpe?g|webp);))/i;
+
+function isSandboxFrame(element: Element): boolean {
+  return element.localName === 'iframe' && element.hasAttribute('sandbox') && !element.hasAttribute('srcdoc');
+}
+
+/**
+ * Remove what can run script from a rendered SVG before it is injected into the page:
+ * script and embedding elements, event handler attributes and `javascript:` URLs.
+ * Mermaid sanitizes labels itself, this also covers SVGs from persistent storage
+ * and diagrams with a `loose` security level.
+ *
+ * The iframe of the `sandbox` security level is kept when `allowSandbox` is set.
+ * Outside the browser, pass the `ownerDocument` to parse with (e.g. from jsdom).
+ */
+export function sanitizeSvg(svg: string, allowSandbox = false, ownerDocument: Document = document): string {
+  // Content of a template is inert: scripts don't run and resources don't load
+  const template = ownerDocument.createElement('template');
+  template.innerHTML = svg;
+
+  for (const element of template.content.querySelectorAll(BLOCKED_ELEMENTS)) {
+    if (allowSandbox && isSandboxFrame(element)) continue;
+    element.remove();
+  }
+
+  // SVG animations can set a link's href to a `javascript:` URL
+  for (const element of template.content.querySelectorAll('animate, set')) {
+    if (/href$/i.test(element.getAttribute('attributeName') ?? '')) element.remove();
+  }
+
+  for (const element of template.content.querySelectorAll('*')) {
+    for (const attribute of [...element.attributes]) {
+      const name = attribute.name.toLowerCase();
+      // Control characters and whitespace are ignored by browsers in URLs, e.g. "java\nscript:"
+      const value = attribute.value.replace(/[\u0000- ]/g, '');
+
+      if (name.startsWith('on')) element.removeAttribute(attribute.name);
+      else if (URL_ATTRIBUTES.includes(name) && UNSAFE_URL.test(value)) {
+        // The sandbox iframe loads the diagram from a data URL
+        if (allowSandbox && name === 'src' && isSandboxFrame(element)) continue;
+        element.removeAttribute(attribute.name);
+      } else if (name === 'style' && /javascript:|expression\(/i.test(value)) element.removeAttribute(attribute.name);
+    }
+  }
+
+  return template.innerHTML;
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { buttonVariants } from 'fumadocs-ui/components/ui/button';
+import { Code, ExternalLink } from 'lucide-react';
+import { normalizeChart, type MermaidConfig } from '../mermaid-config';
+import { ActionIcon, actionLabel, useAction } from './action-status';
+
+const LIVE_EDITOR_URL = 'https://mermaid.live/edit';
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replaceAll('+', '-').replaceAll('/', '_').replace(/=+$/, '');
+}
+
+/**
+ * Link to the Mermaid Live Editor with the chart and its config.
+ *
+ * Uses the editor's `pako:` state format (zlib deflated JSON, base64url encoded),
+ * or the uncompressed `base64:` format where `CompressionStream` isn't available.
+ */
+async function getLiveEditorUrl(chart: string, config: MermaidConfig): Promise<string> {
+  const state = JSON.stringify({
+    code: chart,
+    mermaid: JSON.stringify(config, null, 2),
+    autoSync: true,
+    updateDiagram: true,
+  });
+  const bytes = new TextEncoder().encode(state);
+
+  if (typeof CompressionStream === 'undefined') {
+    return `${LIVE_EDITOR_URL}#base64:${toBase64Url(bytes)}`;
+  }
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+  return `${LIVE_EDITOR_URL}#pako:${toBase64Url(compressed)}`;
+}
+
+/**
+ * Copy the chart source and open it in the Mermaid Live Editor
+ */
+export function SourceActions({ chart, config }: { chart: string; config: MermaidConfig }) {
+  // Same as the rendered chart, so the source is valid Mermaid
+  const source = normalizeChart(chart);
+  const configKey = JSON.stringify(config);
+  const [editorUrl, setEditorUrl] = useState<string>();
+
+  // Rejected without permission, in insecure contexts or when the document isn't focused
+  const [copyStatus, onCopy] = useAction(() => navigator.clipboard.writeText(source));
+
+  useEffect(() => {
+    let cancelled = false;
+    void getLiveEditorUrl(source, JSON.parse(configKey) as MermaidConfig).then((url) => {
+      if (!cancelled) setEditorUrl(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, configKey]);
+
+  return (
+    <>
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={onCopy}
+        aria-label={actionLabel('Copy source', copyStatus)}
+      >
+        <ActionIcon status={copyStatus} icon={Code} />
+      </button>
+      <a
+        href={editorUrl ?? LIVE_EDITOR_URL}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        aria-label="Open in Mermaid Live Editor"
+      >
+        <ExternalLink style={{ width: 14, height: 14 }} />
+      </a>
+    </>
+  );
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { Tab, Tabs } from 'fumadocs-ui/components/tabs';
+import { DynamicCodeBlock } from 'fumadocs-ui/components/dynamic-codeblock';
+import { normalizeChart } from '../mermaid-config';
+
+/**
+ * "Diagram" and "Source" tabs. The source is highlighted like other code blocks
+ * of Fumadocs and has their copy button.
+ *
+ * Both tabs stay mounted, so switching back keeps the diagram's zoom state.
+ */
+export function SourceTabs({ chart, children }: { chart: string; children: ReactNode }) {
+  return (
+    <Tabs items={['Diagram', 'Source']}>
+      <Tab value="Diagram">{children}</Tab>
+      <Tab value="Source">
+        <DynamicCodeBlock lang="mermaid" code={normalizeChart(chart)} />
+      </Tab>
+    </Tabs>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { type RefObject, useLayoutEffect, useRef, useState } from 'react';
+import { buttonVariants } from 'fumadocs-ui/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { getDiagramBody, getDiagramType } from '../parse/diagram';
+import { parseFlowchart } from '../parse/flowchart';
+import { getFlowchartElements, getSequenceMessages } from './diagram-elements';
+
+/**
+ * Elements of later steps are hidden, and fade in when they are revealed
+ */
+export const STEPS_CSS = '[data-mermaid-step-hidden]{opacity:0;visibility:hidden}@media (prefers-reduced-motion:no-preference){[data-mermaid-step]{transition:opacity 200ms,visibility 200ms}}';
+
+// `%% step` comment between the statements of two steps
+const STEP_COMMENT = /^\s*%%\s*step\b.*$/m;
+
+/**
+ * Diagram types that can be stepped through
+ */
+export function supportsSteps(chart: string): boolean {
+  return getDiagramType(chart) !== undefined;
+}
+
+/**
+ * Node groups of a flowchart's steps, in order:
+ *
+ * - listed in the `steps` attribute, separated by `;`, e.g. `A,B;C;D,E`
+ * - otherwise the nodes declared between `%% step` comments of the chart
+ * - without comments, one node at a time in the order they are declared
+ */
+export function getFlowchartSteps(chart: string, steps: string): string[][] {
+  if (steps !== 'true') {
+    return steps
+      .split(';')
+      .map((group) => group.split(',').map((id) => id.trim()).filter(Boolean))
+      .filter((group) => group.length > 0);
+  }
+
+  const sections = chart.split(STEP_COMMENT);
+  if (sections.length === 1) return [...parseFlowchart(getDiagramBody(chart)).nodes.keys()].map((id) => [id]);
+
+  // Parse each section with the ones before it, so edges to earlier nodes still parse
+  const groups: string[][] = [];
+  const seen = new Set<string>();
+  for (let i = 1; i <= sections.length; i++) {
+    const { nodes } = parseFlowchart(getDiagramBody(sections.slice(0, i).join('\n')));
+    const group = [...nodes.keys()].filter((id) => !seen.has(id));
+    for (const id of group) seen.add(id);
+    if (group.length > 0) groups.push(group);
+  }
+
+  return groups;
+}
+
+/**
+ * Elements revealed by each step: the messages of sequence diagrams, the node
+ * groups of flowcharts with the edges between revealed nodes.
+ * Nodes that aren't part of any step are always shown.
+ */
+function getStepElements(svg: Element, chart: string, steps: string): Element[][] {
+  switch (getDiagramType(chart)) {
+    case 'sequence':
+      return getSequenceMessages(svg);
+    case 'flowchart': {
+      const { nodes, edges } = getFlowchartElements(svg, chart);
+      const stepGroups = getFlowchartSteps(chart, steps);
+      const stepOf = new Map<string, number>();
+      for (const [i, group] of stepGroups.entries()) {
+        for (const id of group) {
+          if (!stepOf.has(id)) stepOf.set(id, i);
+        }
+      }
+
+      const groups = stepGroups.map((): Element[] => []);
+      for (const [id, step] of stepOf) {
+        const node = nodes.get(id);
+        if (node) groups[step].push(node);
+      }
+      for (const edge of edges) {
+        const step = Math.max(stepOf.get(edge.from) ?? 0, stepOf.get(edge.to) ?? 0);
+        groups[step]?.push(...edge.elements);
+      }
+      return groups;
+    }
+    default:
+      return [];
+  }
+}
+
+export interface DiagramSteps {
+  /**
+   * Current step, starting at 1
+   */
+  step: number;
+  count: number;
+  setStep: (step: number) => void;
+}
+
+/**
+ * Reveal a rendered diagram step by step, see `getStepElements`.
+ * Returns a `count` of 0 when `steps` is unset or the diagram has no steps.
+ */
+export function useDiagramSteps(containerRef: RefObject<HTMLElement | null>, svg: string, chart: string, steps: string | undefined): DiagramSteps {
+  const groupsRef = useRef<Element[][]>([]);
+  const [count, setCount] = useState(0);
+  const [step, setStep] = useState(1);
+
+  // Before paint, so later steps don't flash when the diagram is (re-)rendered
+  useLayoutEffect(() => {
+    const svgElement = containerRef.current?.querySelector('svg');
+    const groups = steps && svgElement ? getStepElements(svgElement, chart, steps) : [];
+    groupsRef.current = groups;
+    for (const element of groups.flat()) element.setAttribute('data-mermaid-step', '');
+    setCount(groups.length);
+  }, [containerRef, svg, chart, steps]);
+
+  const current = Math.min(step, count);
+  useLayoutEffect(() => {
+    for (const [i, group] of groupsRef.current.entries()) {
+      for (const element of group) element.toggleAttribute('data-mermaid-step-hidden', i >= current);
+    }
+  }, [svg, current, count]);
+
+  return {
+    step: current,
+    count,
+    setStep: (value) => setStep(Math.min(Math.max(value, 1), count)),
+  };
+}
+
+/**
+ * Previous/next buttons and a slider for the toolbar
+ */
+export function StepControls({ step, count, setStep }: DiagramSteps) {
+  return (
+    <div
+      role="group"
+      aria-label="Steps"
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        padding: '0 4px',
+        borderRadius: '6px',
+        background: 'var(--color-fd-background, #fff)',
+      }}
+    >
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={() => setStep(step - 1)}
+        disabled={step <= 1}
+        aria-label="Previous step"
+      >
+        <ChevronLeft style={{ width: 14, height: 14 }} />
+      </button>
+      <input
+        type="range"
+        min={1}
+        max={count}
+        value={step}
+        onChange={(e) => setStep(Number(e.target.value))}
+        aria-label="Step"
+        aria-valuetext={`Step ${step} of ${count}`}
+        style={{ width: '6rem', accentColor: 'var(--color-fd-primary, #2563eb)' }}
+      />
+      <span aria-live="polite" style={{ fontSize: '0.75rem', fontVariantNumeric: 'tabular-nums' }}>
+        {step}/{count}
+      </span>
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={() => setStep(step + 1)}
+        disabled={step >= count}
+        aria-label="Next step"
+      >
+        <ChevronRight style={{ width: 14, height: 14 }} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import type { Mermaid } from 'mermaid';
+import { runExclusive } from './render-cache';
+
+/**
+ * Plain text version of a diagram for screen readers
+ */
+export interface DiagramDescription {
+  summary: string;
+  items: string[];
+}
+
+interface FlowchartDB {
+  getVertices: () => Map<string, { id: string; text?: string }>;
+  getEdges: () => { start: string; end: string; text?: string }[];
+}
+
+interface SequenceDB {
+  getActors: () => Map<string, { name: string; description?: string }>;
+  getMessages: () => { from?: string; to?: string; message?: string; type?: number }[];
+}
+
+// `LINETYPE.NOTE` of Mermaid's sequence diagram
+const SEQUENCE_NOTE = 2;
+
+/**
+ * Labels may contain HTML (`<br>`) or markdown strings
+ */
+function toPlainText(label: string): string {
+  return label
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function describeFlowchart(db: FlowchartDB): DiagramDescription {
+  const vertices = db.getVertices();
+  const edges = db.getEdges();
+  const name = (id: string) => toPlainText(vertices.get(id)?.text || id);
+
+  const items = edges.map(({ start, end, text }) => {
+    const label = text ? toPlainText(text) : '';
+    return `${name(start)} to ${name(end)}${label ? `, labeled "${label}"` : ''}`;
+  });
+
+  const connected = new Set(edges.flatMap(({ start, end }) => [start, end]));
+  for (const id of vertices.keys()) {
+    if (!connected.has(id)) items.push(name(id));
+  }
+
+  return {
+    summary: `Flowchart with ${vertices.size} ${vertices.size === 1 ? 'node' : 'nodes'} and ${edges.length} ${edges.length === 1 ? 'connection' : 'connections'}.`,
+    items,
+  };
+}
+
+function describeSequence(db: SequenceDB): DiagramDescription {
+  const actors = db.getActors();
+  const name = (id: string) => toPlainText(actors.get(id)?.description || id);
+
+  const items: string[] = [];
+  for (const { from, to, message = '', type } of db.getMessages()) {
+    // Loops, alternatives and activations have no sender and receiver
+    if (!from || !to) continue;
+
+    const text = toPlainText(message);
+    if (type === SEQUENCE_NOTE) items.push(`Note: ${text}`);
+    else items.push(`${name(from)} to ${name(to)}: ${text}`);
+  }
+
+  return {
+    summary: `Sequence diagram between ${[...actors.keys()].map(name).join(', ')}.`,
+    items,
+  };
+}
+
+/**
+ * Describe the structure of a chart: the connections of a flowchart or the
+ * messages of a sequence diagram. Other diagram types resolve to `undefined`.
+ */
+export function describeDiagram(mermaid: Mermaid, chart: string): Promise<DiagramDescription | undefined> {
+  return runExclusive(async () => {
+    const diagram = await mermaid.mermaidAPI.getDiagramFromText(chart.replaceAll('\\n', '\n'));
+
+    switch (diagram.type) {
+      case 'flowchart':
+      case 'flowchart-v2':
+      case 'flowchart-elk':
+        return describeFlowchart(diagram.db as unknown as FlowchartDB);
+      case 'sequence':
+        return describeSequence(diagram.db as unknown as SequenceDB);
+      default:
+        return undefined;
+    }
+  });
+}
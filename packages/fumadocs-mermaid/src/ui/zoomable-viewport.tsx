@@ -0,0 +1,504 @@
+'use client';
+
+import { type CSSProperties, type ReactNode, useCallback, useEffect, useRef, useState } from 'react';
+import { buttonVariants } from 'fumadocs-ui/components/ui/button';
+import { ZoomIn, ZoomOut, RotateCcw, Scan } from 'lucide-react';
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 8;
+// Buttons, keyboard and double click zoom by this factor
+const ZOOM_FACTOR = 1.25;
+const DOUBLE_TAP_ZOOM = 2;
+const DOUBLE_TAP_DELAY = 300;
+const PAN_STEP = 40;
+
+interface ZoomState {
+  scale: number;
+  translateX: number;
+  translateY: number;
+}
+
+export interface ZoomActions {
+  zoomIn: () => void;
+  zoomOut: () => void;
+  reset: () => void;
+  fit: () => void;
+}
+
+export function ZoomButtons({ actionsRef }: { actionsRef: React.RefObject<ZoomActions | null> }) {
+  return (
+    <>
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={() => actionsRef.current?.zoomIn()}
+        aria-label="Zoom in"
+      >
+        <ZoomIn style={{ width: 14, height: 14 }} />
+      </button>
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={() => actionsRef.current?.zoomOut()}
+        aria-label="Zoom out"
+      >
+        <ZoomOut style={{ width: 14, height: 14 }} />
+      </button>
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={() => actionsRef.current?.fit()}
+        aria-label="Fit to view"
+      >
+        <Scan style={{ width: 14, height: 14 }} />
+      </button>
+      <button
+        type="button"
+        className={buttonVariants({ size: 'icon-sm', color: 'outline' })}
+        onClick={() => actionsRef.current?.reset()}
+        aria-label="Reset zoom"
+      >
+        <RotateCcw style={{ width: 14, height: 14 }} />
+      </button>
+    </>
+  );
+}
+
+interface ZoomableViewportProps {
+  children: ReactNode;
+  actionsRef: React.MutableRefObject<ZoomActions | null>;
+
+  /**
+   * Overrides for the outer element's style, e.g. to fill a fullscreen dialog
+   */
+  style?: CSSProperties;
+
+  /**
+   * Fit the diagram into the viewport when mounted
+   */
+  fitOnMount?: boolean;
+
+  /**
+   * Show an overview of the whole diagram with the visible area highlighted
+   */
+  minimap?: boolean;
+}
+
+interface Pointer {
+  x: number;
+  y: number;
+}
+
+interface PinchStart {
+  distance: number;
+  scale: number;
+}
+
+function distance(a: Pointer, b: Pointer): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function midpoint(a: Pointer, b: Pointer): Pointer {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Pan and zoom container for a rendered diagram.
+ *
+ * Supports wheel and pinch zoom, drag to pan, double click/tap to zoom in and,
+ * when focused, `+`/`-`/`0` and arrow keys. The transform is applied
+ * imperatively so interactions don't re-render the diagram.
+ */
+export function ZoomableViewport({ children, actionsRef, style, fitOnMount = false, minimap = false }: ZoomableViewportProps) {
+  const outerRef = useRef<HTMLDivElement>(null);
+  const innerRef = useRef<HTMLDivElement>(null);
+  const minimapViewRef = useRef<HTMLDivElement>(null);
+  const stateRef = useRef<ZoomState>({ scale: 1, translateX: 0, translateY: 0 });
+  const pointersRef = useRef(new Map<number, Pointer>());
+  const pinchRef = useRef<PinchStart | null>(null);
+  const lastTapRef = useRef<{ time: number; x: number; y: number } | null>(null);
+  const lastTapZoomRef = useRef(0);
+
+  // Bounds of the SVG relative to the untransformed content
+  const measureSvg = useCallback(() => {
+    const inner = innerRef.current;
+    const svg = inner?.querySelector('svg');
+    if (!inner || !svg) return null;
+
+    const { scale } = stateRef.current;
+    const innerRect = inner.getBoundingClientRect();
+    const svgRect = svg.getBoundingClientRect();
+    if (!svgRect.width || !svgRect.height) return null;
+
+    return {
+      width: svgRect.width / scale,
+      height: svgRect.height / scale,
+      offsetX: (svgRect.left - innerRect.left) / scale,
+      offsetY: (svgRect.top - innerRect.top) / scale,
+    };
+  }, []);
+
+  const updateMinimap = useCallback(() => {
+    const view = minimapViewRef.current;
+    const outer = outerRef.current;
+    const bounds = measureSvg();
+    if (!view || !outer || !bounds) return;
+
+    // Visible area in SVG coordinates, as a fraction of the SVG size
+    const { scale, translateX, translateY } = stateRef.current;
+    view.style.left = `${(-translateX / scale - bounds.offsetX) / bounds.width * 100}%`;
+    view.style.top = `${(-translateY / scale - bounds.offsetY) / bounds.height * 100}%`;
+    view.style.width = `${outer.clientWidth / scale / bounds.width * 100}%`;
+    view.style.height = `${outer.clientHeight / scale / bounds.height * 100}%`;
+  }, [measureSvg]);
+
+  const applyTransform = useCallback(() => {
+    const el = innerRef.current;
+    if (!el) return;
+    const { scale, translateX, translateY } = stateRef.current;
+    el.style.transform = `translate(${translateX}px, ${translateY}px) scale(${scale})`;
+    updateMinimap();
+  }, [updateMinimap]);
+
+  const clampScale = useCallback((s: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, s)), []);
+
+  /**
+   * Zoom to `newScale`, keeping the point (x, y) relative to the viewport in place
+   */
+  const zoomAt = useCallback((newScale: number, x: number, y: number) => {
+    const state = stateRef.current;
+    const oldScale = state.scale;
+    const scale = clampScale(newScale);
+    state.translateX = x - (x - state.translateX) * (scale / oldScale);
+    state.translateY = y - (y - state.translateY) * (scale / oldScale);
+    state.scale = scale;
+    applyTransform();
+  }, [applyTransform, clampScale]);
+
+  const zoomAtCenter = useCallback((factor: number) => {
+    const outer = outerRef.current;
+    if (!outer) return;
+    const rect = outer.getBoundingClientRect();
+    zoomAt(stateRef.current.scale * factor, rect.width / 2, rect.height / 2);
+  }, [zoomAt]);
+
+  const pan = useCallback((dx: number, dy: number) => {
+    stateRef.current.translateX += dx;
+    stateRef.current.translateY += dy;
+    applyTransform();
+  }, [applyTransform]);
+
+  // Attach wheel handler imperatively with { passive: false } so
+  // preventDefault() works and the page doesn't scroll while zooming.
+  useEffect(() => {
+    const outer = outerRef.current;
+    if (!outer) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+
+      const rect = outer.getBoundingClientRect();
+      // Proportional to the delta, so trackpads zoom smoothly
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      zoomAt(stateRef.current.scale * Math.exp(-delta * 0.002), e.clientX - rect.left, e.clientY - rect.top);
+    };
+
+    outer.addEventListener('wheel', handleWheel, { passive: false });
+    return () => outer.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const toLocal = useCallback((clientX: number, clientY: number): Pointer => {
+    const rect = outerRef.current?.getBoundingClientRect();
+    return rect ? { x: clientX - rect.left, y: clientY - rect.top } : { x: clientX, y: clientY };
+  }, []);
+
+  const startPinch = useCallback(() => {
+    const [a, b] = [...pointersRef.current.values()];
+    pinchRef.current = a && b ? { distance: distance(a, b) || 1, scale: stateRef.current.scale } : null;
+  }, []);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    pointersRef.current.set(e.pointerId, toLocal(e.clientX, e.clientY));
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+
+    if (pointersRef.current.size === 2) startPinch();
+    const outer = outerRef.current;
+    if (outer) outer.style.cursor = 'grabbing';
+  }, [toLocal, startPinch]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+
+    const current = toLocal(e.clientX, e.clientY);
+
+    if (pointers.size >= 2 && pinchRef.current) {
+      const [a, b] = [...pointers.values()];
+      const before = midpoint(a, b);
+      pointers.set(e.pointerId, current);
+      const [nextA, nextB] = [...pointers.values()];
+      const after = midpoint(nextA, nextB);
+
+      // Pan with the fingers' midpoint, then zoom around it
+      stateRef.current.translateX += after.x - before.x;
+      stateRef.current.translateY += after.y - before.y;
+      const ratio = distance(nextA, nextB) / pinchRef.current.distance;
+      zoomAt(pinchRef.current.scale * ratio, after.x, after.y);
+      return;
+    }
+
+    pointers.set(e.pointerId, current);
+    pan(current.x - previous.x, current.y - previous.y);
+  }, [toLocal, zoomAt, pan]);
+
+  const handleDoubleTap = useCallback((x: number, y: number) => {
+    const { scale } = stateRef.current;
+    if (scale >= MAX_ZOOM) {
+      stateRef.current = { scale: 1, translateX: 0, translateY: 0 };
+      applyTransform();
+    } else {
+      zoomAt(scale * DOUBLE_TAP_ZOOM, x, y);
+    }
+  }, [applyTransform, zoomAt]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    const pointer = pointers.get(e.pointerId);
+    pointers.delete(e.pointerId);
+
+    // Continue with the remaining finger as a drag, or a new pinch
+    pinchRef.current = null;
+    if (pointers.size === 2) startPinch();
+
+    // Browsers don't reliably fire dblclick for touch, detect double taps here
+    if (e.type === 'pointerup' && e.pointerType === 'touch' && pointer && pointers.size === 0) {
+      const now = Date.now();
+      const last = lastTapRef.current;
+      if (last && now - last.time < DOUBLE_TAP_DELAY && Math.hypot(pointer.x - last.x, pointer.y - last.y) < 30) {
+        lastTapRef.current = null;
+        lastTapZoomRef.current = now;
+        handleDoubleTap(pointer.x, pointer.y);
+      } else {
+        lastTapRef.current = { time: now, x: pointer.x, y: pointer.y };
+      }
+    }
+
+    const outer = outerRef.current;
+    if (outer && pointers.size === 0) outer.style.cursor = 'grab';
+  }, [startPinch, handleDoubleTap]);
+
+  const handleDoubleClick = useCallback((e: React.MouseEvent) => {
+    // Already handled as a double tap
+    if (Date.now() - lastTapZoomRef.current < 500) return;
+    const { x, y } = toLocal(e.clientX, e.clientY);
+    handleDoubleTap(x, y);
+  }, [toLocal, handleDoubleTap]);
+
+  const zoomIn = useCallback(() => zoomAtCenter(ZOOM_FACTOR), [zoomAtCenter]);
+
+  const zoomOut = useCallback(() => zoomAtCenter(1 / ZOOM_FACTOR), [zoomAtCenter]);
+
+  const reset = useCallback(() => {
+    stateRef.current = { scale: 1, translateX: 0, translateY: 0 };
+    applyTransform();
+  }, [applyTransform]);
+
+  // Scale the SVG to fit the viewport and center it
+  const fit = useCallback(() => {
+    const outer = outerRef.current;
+    const bounds = measureSvg();
+    if (!outer || !bounds) return;
+
+    const { width, height, offsetX, offsetY } = bounds;
+    const scale = clampScale(Math.min(outer.clientWidth / width, outer.clientHeight / height));
+    stateRef.current = {
+      scale,
+      translateX: (outer.clientWidth - width * scale) / 2 - offsetX * scale,
+      translateY: (outer.clientHeight - height * scale) / 2 - offsetY * scale,
+    };
+    applyTransform();
+  }, [applyTransform, clampScale, measureSvg]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.altKey || e.ctrlKey || e.metaKey) return;
+    const step = e.shiftKey ? PAN_STEP * 3 : PAN_STEP;
+
+    switch (e.key) {
+      case '+':
+      case '=':
+        zoomIn();
+        break;
+      case '-':
+      case '_':
+        zoomOut();
+        break;
+      case '0':
+        reset();
+        break;
+      case 'f':
+        fit();
+        break;
+      case 'ArrowLeft':
+        pan(step, 0);
+        break;
+      case 'ArrowRight':
+        pan(-step, 0);
+        break;
+      case 'ArrowUp':
+        pan(0, step);
+        break;
+      case 'ArrowDown':
+        pan(0, -step);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }, [zoomIn, zoomOut, reset, fit, pan]);
+
+  // Expose zoom actions to parent
+  useEffect(() => {
+    actionsRef.current = { zoomIn, zoomOut, reset, fit };
+    return () => { actionsRef.current = null; };
+  }, [actionsRef, zoomIn, zoomOut, reset, fit]);
+
+  useEffect(() => {
+    if (!fitOnMount) return;
+    // Wait for layout, e.g. a dialog that is opened by the parent's effect
+    const frame = requestAnimationFrame(() => fit());
+    return () => cancelAnimationFrame(frame);
+  }, [fitOnMount, fit]);
+
+  return (
+    <div
+      ref={outerRef}
+      tabIndex={0}
+      aria-label="Diagram viewport. Use plus and minus to zoom, arrow keys to pan, 0 to reset and F to fit."
+      style={{
+        position: 'relative',
+        overflow: 'hidden',
+        borderRadius: '8px',
+        border: '1px solid var(--fd-border, #e5e7eb)',
+        cursor: 'grab',
+        touchAction: 'none',
+        ...style,
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        ref={innerRef}
+        style={{ transformOrigin: '0 0' }}
+      >
+        {children}
+      </div>
+      {minimap && (
+        <Minimap
+          contentRef={innerRef}
+          viewRef={minimapViewRef}
+          onReady={updateMinimap}
+          onNavigate={(x, y) => {
+            // Center the viewport on the clicked point of the SVG
+            const outer = outerRef.current;
+            const bounds = measureSvg();
+            if (!outer || !bounds) return;
+            const { scale } = stateRef.current;
+            stateRef.current.translateX = outer.clientWidth / 2 - (bounds.offsetX + x * bounds.width) * scale;
+            stateRef.current.translateY = outer.clientHeight / 2 - (bounds.offsetY + y * bounds.height) * scale;
+            applyTransform();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+const MINIMAP_WIDTH = 160;
+
+interface MinimapProps {
+  contentRef: React.RefObject<HTMLDivElement | null>;
+  viewRef: React.RefObject<HTMLDivElement | null>;
+  onReady: () => void;
+
+  /**
+   * Called with the clicked position as a fraction of the content size
+   */
+  onNavigate: (x: number, y: number) => void;
+}
+
+/**
+ * Overview of the whole diagram. The SVG is shown as an image, so its ids
+ * don't clash with the diagram itself.
+ */
+function Minimap({ contentRef, viewRef, onReady, onNavigate }: MinimapProps) {
+  const [snapshot, setSnapshot] = useState<{ src: string; aspectRatio: number } | null>(null);
+
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+
+    const update = () => {
+      const svg = content.querySelector('svg');
+      const rect = svg?.getBoundingClientRect();
+      if (!svg || !rect?.width || !rect.height) return;
+      const xml = new XMLSerializer().serializeToString(svg);
+      setSnapshot({
+        src: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(xml)}`,
+        aspectRatio: rect.width / rect.height,
+      });
+    };
+
+    update();
+    // The diagram changes on theme switches
+    const observer = new MutationObserver(update);
+    observer.observe(content, { childList: true, subtree: true });
+    return () => observer.disconnect();
+  }, [contentRef]);
+
+  useEffect(() => {
+    if (snapshot) onReady();
+  }, [snapshot, onReady]);
+
+  if (!snapshot) return null;
+
+  return (
+    <div
+      aria-hidden
+      onPointerDown={(e) => {
+        // Don't start dragging the viewport
+        e.stopPropagation();
+        const rect = e.currentTarget.getBoundingClientRect();
+        onNavigate((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+      }}
+      style={{
+        position: 'absolute',
+        right: '8px',
+        bottom: '8px',
+        width: `${MINIMAP_WIDTH}px`,
+        aspectRatio: snapshot.aspectRatio,
+        overflow: 'hidden',
+        borderRadius: '4px',
+        border: '1px solid var(--color-fd-border, #e5e7eb)',
+        background: 'var(--color-fd-background, #fff)',
+        cursor: 'pointer',
+      }}
+    >
+      <img src={snapshot.src} alt="" draggable={false} style={{ display: 'block', width: '100%', height: '100%' }} />
+      <div
+        ref={viewRef}
+        style={{
+          position: 'absolute',
+          border: '1px solid var(--color-fd-primary, #2563eb)',
+          background: 'color-mix(in srgb, var(--color-fd-primary, #2563eb) 10%, transparent)',
+          pointerEvents: 'none',
+        }}
+      />
+    </div>
+  );
+}
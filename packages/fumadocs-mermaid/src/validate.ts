@@ -0,0 +1,103 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Mermaid } from 'mermaid';
+import { buildMermaidConfig, findUnknownConfigKeys, withInitDirective } from './mermaid-config';
+import { parseMermaidError, type MermaidErrorInfo } from './mermaid-error';
+
+interface LoadedMermaid {
+  mermaid: Mermaid;
+
+  /**
+   * Whether Mermaid was loaded with a DOM, so its label sanitizing works
+   */
+  dom: boolean;
+}
+
+/**
+ * Default export of DOMPurify: an instance, and a factory for instances bound to another window
+ */
+interface DOMPurify {
+  (window: unknown): object;
+  isSupported: boolean;
+}
+
+let mermaidPromise: Promise<LoadedMermaid> | undefined;
+
+/**
+ * Give the DOMPurify instance that Mermaid imports a jsdom window, if jsdom is installed.
+ *
+ * DOMPurify only works when a `window` exists as it's imported. Its methods are replaced
+ * with those of an instance bound to jsdom instead, as a global `window` would be seen by
+ * everything else running in the build process.
+ */
+async function provideDOMPurifyWindow(): Promise<boolean> {
+  try {
+    const { JSDOM } = await import('jsdom');
+    // Resolve DOMPurify from Mermaid, and load the ES module build that Mermaid imports
+    const resolveFromMermaid = createRequire(createRequire(import.meta.url).resolve('mermaid'));
+    const packageDir = path.dirname(path.dirname(resolveFromMermaid.resolve('dompurify')));
+    const { exports } = JSON.parse(await readFile(path.join(packageDir, 'package.json'), 'utf8')) as {
+      exports: { '.': { import: { default: string } } };
+    };
+    const { default: purify } = (await import(pathToFileURL(path.join(packageDir, exports['.'].import.default)).href)) as {
+      default: DOMPurify;
+    };
+
+    if (!purify.isSupported) {
+      const instance = purify(new JSDOM('').window);
+      Object.assign(purify, instance);
+    }
+    return true;
+  } catch {
+    // jsdom isn't installed, charts are parsed without a DOM
+    return false;
+  }
+}
+
+/**
+ * Mermaid sanitizes labels with DOMPurify, which needs a DOM
+ */
+function importMermaid(): Promise<LoadedMermaid> {
+  mermaidPromise ??= (async () => {
+    const dom = typeof window !== 'undefined' || (await provideDOMPurifyWindow());
+    return { mermaid: (await import('mermaid')).default, dom };
+  })();
+  return mermaidPromise;
+}
+
+/**
+ * Parse a mermaid code block at build time.
+ * Resolves with the parse error if the chart is invalid, `undefined` otherwise.
+ */
+export async function validateMermaid(
+  chart: string,
+  config: Record<string, string | null>,
+): Promise<MermaidErrorInfo | undefined> {
+  const { mermaid, dom } = await importMermaid();
+
+  const configStr = Object.keys(config).length > 0 ? JSON.stringify(config) : undefined;
+  const fullChart = withInitDirective(chart, buildMermaidConfig(configStr, undefined));
+
+  try {
+    await mermaid.parse(fullChart);
+    return undefined;
+  } catch (error) {
+    const info = parseMermaidError(error, chart);
+    // Without a DOM, diagrams with labels fail inside Mermaid (e.g. "DOMPurify.addHook is not
+    // a function"). Syntax errors report a position, anything else isn't the chart's fault.
+    if (!dom && info.line === undefined) return undefined;
+    return info;
+  }
+}
+
+/**
+ * Dotted config attributes of a code block that Mermaid doesn't know about.
+ */
+export async function findUnknownMermaidConfig(config: Record<string, string | null>): Promise<string[]> {
+  if (!Object.keys(config).some((name) => name.includes('.'))) return [];
+
+  const { mermaid } = await importMermaid();
+  return findUnknownConfigKeys(config, mermaid.mermaidAPI.defaultConfig);
+}
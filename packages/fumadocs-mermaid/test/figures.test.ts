@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { remark } from 'remark';
+import { VFile } from 'vfile';
+import type { Link, Root } from 'mdast';
+import { visit } from 'unist-util-visit';
+import { remarkMdxMermaid, type RemarkMdxMermaidOptions } from '../src';
+
+async function run(markdown: string, options: RemarkMdxMermaidOptions = { figures: true }) {
+  const processor = remark().use(remarkMdxMermaid, options);
+  const file = new VFile(markdown);
+  const tree = (await processor.run(processor.parse(file), file)) as Root;
+
+  const links: string[] = [];
+  visit(tree, 'link', (node: Link) => {
+    links.push(node.children.map((child) => ('value' in child ? child.value : '')).join(''));
+  });
+  return { links, messages: file.messages.map((message) => message.reason) };
+}
+
+const PAGE = '```mermaid title="Login flow"\ngraph TD; A-->B\n```\n\n';
+
+describe('figure references', () => {
+  it('fills links to figures with their label', async () => {
+    const { links, messages } = await run(`${PAGE}See [](#figure-login-flow).`);
+
+    expect(links).toEqual(['Figure 1']);
+    expect(messages).toEqual([]);
+  });
+
+  it('leaves empty links to headings alone', async () => {
+    const { links, messages } = await run(`${PAGE}See [](#other-heading).`);
+
+    expect(links).toEqual(['']);
+    expect(messages).toEqual([]);
+  });
+
+  it('reports links to unknown figures', async () => {
+    const { messages } = await run(`${PAGE}See [](#figure-missing).`);
+
+    expect(messages).toEqual(['Reference to unknown mermaid figure "#figure-missing"']);
+  });
+
+  it('is off by default', async () => {
+    const { links, messages } = await run(`${PAGE}See [](#figure-login-flow).`, {});
+
+    expect(links).toEqual(['']);
+    expect(messages).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { mkdtemp, mkdir, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { findBrokenLinks } from '../src/links';
+
+const CHART = 'graph TD\n  click A "/docs/auth"\n  click B "/docs/missing"\n  click C "https://example.com"';
+
+async function createContentDir(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'fumadocs-mermaid-'));
+  await mkdir(path.join(dir, '(guides)'));
+  await writeFile(path.join(dir, 'index.mdx'), '');
+  await writeFile(path.join(dir, '(guides)', 'auth.mdx'), '');
+  return dir;
+}
+
+describe('findBrokenLinks', () => {
+  it('checks links against the pages of a content directory', async () => {
+    const dir = await createContentDir();
+    const [broken] = await findBrokenLinks([CHART], { dir, baseUrl: '/docs' });
+
+    expect(broken.map(({ href }) => href)).toEqual(['/docs/missing']);
+  });
+
+  it('reads the content directory once', async () => {
+    const dir = await createContentDir();
+    await findBrokenLinks([CHART], { dir, baseUrl: '/docs' });
+    await writeFile(path.join(dir, 'missing.mdx'), '');
+
+    const [broken] = await findBrokenLinks([CHART], { dir, baseUrl: '/docs' });
+    expect(broken.map(({ href }) => href)).toEqual(['/docs/missing']);
+  });
+
+  it('checks links against the given urls', async () => {
+    const [broken] = await findBrokenLinks([CHART], { urls: ['/docs/en/auth', '/docs/missing/'], baseUrl: '/docs' });
+
+    expect(broken.map(({ href }) => href)).toEqual(['/docs/auth']);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseMermaidError } from '../src/mermaid-error';
+
+describe('parseMermaidError', () => {
+  it('reports lines of the chart without the init directive', () => {
+    const error = new Error('Parse error on line 4:\n...B --> C[Oops\n---------------^');
+    const { message, line } = parseMermaidError(error, 'graph TD\n  A --> B\n  B --> C[Oops');
+
+    expect(line).toBe(3);
+    expect(message).toMatch(/^Parse error on line 3:/);
+  });
+
+  it('reports lines of Langium offsets', () => {
+    const { message, line } = parseMermaidError(new Error('Parsing failed: unexpected character at offset: 12'), 'pie\n  "A" 10');
+
+    expect(line).toBe(2);
+    expect(message).toBe('Parsing failed: unexpected character at offset: 12');
+  });
+});
@@ -0,0 +1,32 @@
+import { fileURLToPath } from 'node:url';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { remark } from 'remark';
+import { VFile } from 'vfile';
+import type { Root } from 'mdast';
+import { remarkMdxMermaid, type RemarkMdxMermaidOptions } from '../src';
+
+const cwd = fileURLToPath(new URL('./fixtures', import.meta.url));
+
+async function run(markdown: string, options: RemarkMdxMermaidOptions = {}) {
+  const processor = remark().use(remarkMdxMermaid, options);
+  const file = new VFile({ value: markdown, path: 'docs/page.mdx', cwd });
+  return (await processor.run(processor.parse(file), file)) as Root;
+}
+
+describe('file attribute', () => {
+  it('inlines files relative to the MDX file', async () => {
+    const tree = await run('```mermaid file="../diagrams/flow.mmd"\n```');
+
+    expect(JSON.stringify(tree)).toContain('A --> B');
+  });
+
+  it('rejects files outside of the working directory', async () => {
+    await expect(run('```mermaid file="../../mermaid-file.test.ts"\n```')).rejects.toThrow(/outside of/);
+    await expect(run(`\`\`\`mermaid file="${path.resolve(cwd, '../../package.json')}"\n\`\`\``)).rejects.toThrow(/outside of/);
+  });
+
+  it('rejects files outside of fileRoot', async () => {
+    await expect(run('```mermaid file="../diagrams/flow.mmd"\n```', { fileRoot: 'docs' })).rejects.toThrow(/outside of/);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { findOgDiagram } from '../src/og/find-diagram';
+import { MermaidOgImage } from '../src/og';
+
+const EMPTY = 'graph TD\n  classDef x fill:#f00';
+const FLOWCHART = 'graph TD\n  A[Start] --> B[End]';
+
+describe('findOgDiagram', () => {
+  it('skips diagrams with nothing to draw', () => {
+    const markdown = `\`\`\`mermaid\n${EMPTY}\n\`\`\`\n\n\`\`\`mermaid\n${FLOWCHART}\n\`\`\``;
+
+    expect(findOgDiagram(markdown)).toBe(FLOWCHART);
+  });
+
+  it('skips a flagged diagram with nothing to draw', () => {
+    const markdown = `\`\`\`mermaid og\n${EMPTY}\n\`\`\`\n\n\`\`\`mermaid\n${FLOWCHART}\n\`\`\``;
+
+    expect(findOgDiagram(markdown)).toBe(FLOWCHART);
+  });
+
+  it('matches the flag literally', () => {
+    const markdown = `\`\`\`mermaid c++\n${FLOWCHART}\n\`\`\`\n\n\`\`\`mermaid og\nsequenceDiagram\n  A->>B: Hi\n\`\`\``;
+
+    expect(findOgDiagram(markdown, { flag: 'c++' })).toBe(FLOWCHART);
+    expect(findOgDiagram(markdown, { flag: 'o.' })).toBe(FLOWCHART);
+  });
+
+  it('finds nothing when no diagram can be drawn', () => {
+    expect(findOgDiagram(`\`\`\`mermaid\n${EMPTY}\n\`\`\``)).toBeUndefined();
+  });
+});
+
+describe('MermaidOgImage', () => {
+  it('renders nothing for diagrams with nothing to draw', () => {
+    expect(MermaidOgImage({ chart: EMPTY })).toBeNull();
+    expect(MermaidOgImage({ chart: FLOWCHART })).not.toBeNull();
+  });
+});
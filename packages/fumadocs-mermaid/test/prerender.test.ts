@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { remark } from 'remark';
+import { VFile } from 'vfile';
+import { remarkMdxMermaid, type PrerenderFunction, type RemarkMdxMermaidOptions } from '../src';
+import { prerenderMermaid } from '../src/prerender';
+
+const render: PrerenderFunction = async (_, id) => `<svg id="${id}"><script>alert(1)</script><g onclick="alert(1)"><text>A</text></g></svg>`;
+
+async function getPrerenderedBlocks(markdown: string, options: RemarkMdxMermaidOptions = {}): Promise<number> {
+  const processor = remark().use(remarkMdxMermaid, { prerender: { render }, ...options });
+  const file = new VFile(markdown);
+  const tree = await processor.run(processor.parse(file), file);
+  return (JSON.stringify(tree).match(/"name":"svg"/g) ?? []).length;
+}
+
+describe('prerenderMermaid', () => {
+  it('sanitizes the rendered SVGs', async () => {
+    const { svg, svgDark } = await prerenderMermaid('graph TD; A', {}, { render });
+
+    for (const value of [svg, svgDark]) {
+      expect(value).toContain('<text>A</text>');
+      expect(value).not.toContain('<script');
+      expect(value).not.toContain('onclick');
+    }
+  });
+});
+
+describe('prerender option', () => {
+  it('only prerenders blocks with the strict security level', async () => {
+    expect(await getPrerenderedBlocks('```mermaid\ngraph TD; A\n```')).toBe(1);
+    expect(await getPrerenderedBlocks('```mermaid securityLevel="strict"\ngraph TD; A\n```')).toBe(1);
+    expect(await getPrerenderedBlocks('```mermaid securityLevel="loose"\ngraph TD; A\n```')).toBe(0);
+    expect(await getPrerenderedBlocks('```mermaid securityLevel="sandbox"\ngraph TD; A\n```')).toBe(0);
+  });
+
+  it('follows a site-wide security level from defaultAttributes', async () => {
+    const options = { defaultAttributes: { securityLevel: 'loose' } };
+
+    expect(await getPrerenderedBlocks('```mermaid\ngraph TD; A\n```', options)).toBe(0);
+    expect(await getPrerenderedBlocks('```mermaid securityLevel="strict"\ngraph TD; A\n```', options)).toBe(1);
+  });
+});
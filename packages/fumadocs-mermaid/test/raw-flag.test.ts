@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { remark } from 'remark';
+import { VFile } from 'vfile';
+import type { Code, Root } from 'mdast';
+import { remarkMdxMermaid } from '../src';
+
+async function getRawMeta(markdown: string, rawFlag: string): Promise<string | null | undefined> {
+  const processor = remark().use(remarkMdxMermaid, { rawFlag });
+  const file = new VFile(markdown);
+  const tree = (await processor.run(processor.parse(file), file)) as Root;
+  return (tree.children.find((node) => node.type === 'code') as Code | undefined)?.meta;
+}
+
+describe('rawFlag', () => {
+  it('keeps the code block and removes the flag', async () => {
+    expect(await getRawMeta('```mermaid title="Example" raw\ngraph TD; A\n```', 'raw')).toBe('title="Example"');
+  });
+
+  it('matches the flag literally', async () => {
+    expect(await getRawMeta('```mermaid asXcode as.code\ngraph TD; A\n```', 'as.code')).toBe('asXcode');
+  });
+});
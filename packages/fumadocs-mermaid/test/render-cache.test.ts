@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getFinishedRender, renderCached } from '../src/ui/render-cache';
+
+describe('renderCached', () => {
+  it('shares renders of the same key', async () => {
+    let calls = 0;
+    const render = async () => ({ svg: `<svg>${++calls}</svg>` });
+
+    const first = renderCached('shared', render, false);
+    expect(renderCached('shared', render, false)).toBe(first);
+    expect(await first).toEqual({ svg: '<svg>1</svg>' });
+  });
+
+  it('returns finished renders without a promise', async () => {
+    const promise = renderCached('finished', async () => ({ svg: '<svg />' }), false);
+    expect(getFinishedRender('finished')).toBeUndefined();
+
+    await promise;
+    expect(getFinishedRender('finished')).toEqual({ svg: '<svg />' });
+  });
+
+  it('evicts failed renders', async () => {
+    await expect(renderCached('failed', () => Promise.reject(new Error('Parse error')), false)).rejects.toThrow('Parse error');
+
+    expect(getFinishedRender('failed')).toBeUndefined();
+    expect(await renderCached('failed', async () => ({ svg: '<svg />' }), false)).toEqual({ svg: '<svg />' });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { remark } from 'remark';
+import { VFile } from 'vfile';
+import { remarkHeading, remarkStructure, type StructuredData } from 'fumadocs-core/mdx-plugins';
+import { remarkMdxMermaid, type RemarkMdxMermaidOptions } from '../src';
+
+async function getStructuredData(markdown: string, options: RemarkMdxMermaidOptions = { search: true, figures: false }): Promise<StructuredData> {
+  const processor = remark().use(remarkHeading).use(remarkMdxMermaid, options).use(remarkStructure);
+  const file = new VFile(markdown);
+  await processor.run(processor.parse(file), file);
+  return file.data.structuredData as StructuredData;
+}
+
+const PAGE = `## Authentication
+
+Before the diagram.
+
+\`\`\`mermaid id="figure-login-flow" title="Login flow"
+sequenceDiagram
+  Browser->>Server: Submit password
+\`\`\`
+
+After the diagram paragraph.
+
+## Sessions
+
+Sessions expire.
+`;
+
+describe('search structure', () => {
+  it('indexes diagram text under the figure anchor', async () => {
+    const { headings, contents } = await getStructuredData(PAGE);
+
+    expect(headings).toContainEqual({ id: 'figure-login-flow', content: 'Login flow' });
+    expect(contents).toContainEqual({ heading: 'figure-login-flow', content: 'Browser, Server, Submit password' });
+  });
+
+  it('indexes prose after a figure under the enclosing heading', async () => {
+    const { headings, contents } = await getStructuredData(PAGE);
+
+    expect(contents).toContainEqual({ heading: 'authentication', content: 'After the diagram paragraph.' });
+    expect(contents).toContainEqual({ heading: 'sessions', content: 'Sessions expire.' });
+    // The heading that restores the section has no content of its own
+    expect(headings.filter(({ content }) => content === 'Authentication')).toHaveLength(1);
+  });
+
+  it('indexes diagrams before the first heading without their anchor', async () => {
+    const { contents } = await getStructuredData('```mermaid id="intro" title="Intro"\ngraph TD; A[Start]-->B[End]\n```\n\nIntro text.');
+
+    expect(contents).toContainEqual({ heading: undefined, content: 'Start, End' });
+    expect(contents).toContainEqual({ heading: undefined, content: 'Intro text.' });
+  });
+
+  it('leaves the search index alone by default', async () => {
+    const { contents } = await getStructuredData(PAGE, {});
+
+    expect(contents.map(({ content }) => content)).not.toContain('Browser, Server, Submit password');
+  });
+});
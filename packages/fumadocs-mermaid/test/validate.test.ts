@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { validateMermaid } from '../src/validate';
+
+const VALID_CHARTS: Record<string, string> = {
+  flowchart: 'graph TD\n  A[Start] --> B{Is it?}\n  B -->|Yes| C[OK]',
+  sequence: 'sequenceDiagram\n  Alice->>Bob: Hello\n  Note over Bob: Thinking',
+  class: 'classDiagram\n  class Order {\n    +int id\n  }\n  Order --> Item',
+  state: 'stateDiagram-v2\n  [*] --> Idle\n  Idle --> Running: start',
+  er: 'erDiagram\n  CUSTOMER ||--o{ ORDER : places',
+  gantt: 'gantt\n  title Plan\n  dateFormat YYYY-MM-DD\n  section Build\n  Task :a1, 2024-01-01, 3d',
+  pie: 'pie title Pets\n  "Dogs" : 386\n  "Cats" : 85',
+  journey: 'journey\n  title Day\n  section Work\n  Code: 5: Me',
+  timeline: 'timeline\n  title History\n  2020 : Launch',
+  mindmap: 'mindmap\n  root((Docs))\n    Guides',
+  gitGraph: 'gitGraph\n  commit\n  branch feature\n  commit',
+};
+
+describe('validateMermaid', () => {
+  it.each(Object.entries(VALID_CHARTS))('accepts a valid %s', async (_, chart) => {
+    expect(await validateMermaid(chart, {})).toBeUndefined();
+  });
+
+  it('accepts a valid chart with config attributes', async () => {
+    expect(await validateMermaid(VALID_CHARTS.flowchart, { 'flowchart.curve': 'linear' })).toBeUndefined();
+  });
+
+  it('reports syntax errors with their line', async () => {
+    const error = await validateMermaid('graph TD\n  A --> B\n  B --> C[Oops', {});
+    expect(error?.message).toMatch(/Parse error/);
+    expect(error?.line).toBe(3);
+  });
+
+  it('imports mermaid without a global window', async () => {
+    vi.resetModules();
+    let windowDuringImport: unknown;
+    vi.doMock('mermaid', async (importOriginal) => {
+      windowDuringImport = (globalThis as { window?: unknown }).window;
+      return importOriginal();
+    });
+
+    const { validateMermaid: validateFresh } = await import('../src/validate');
+    expect(await validateFresh(VALID_CHARTS.flowchart, {})).toBeUndefined();
+    expect(windowDuringImport).toBeUndefined();
+
+    vi.doUnmock('mermaid');
+  });
+
+  it('skips internal failures without a DOM', async () => {
+    vi.resetModules();
+    vi.doMock('jsdom', () => {
+      throw new Error('Cannot find module jsdom');
+    });
+    vi.doMock('mermaid', () => ({
+      default: {
+        parse: () => Promise.reject(new TypeError('DOMPurify.addHook is not a function')),
+      },
+    }));
+
+    const { validateMermaid: validateWithoutDom } = await import('../src/validate');
+    expect(await validateWithoutDom(VALID_CHARTS.flowchart, {})).toBeUndefined();
+
+    vi.doUnmock('jsdom');
+    vi.doUnmock('mermaid');
+  });
+});